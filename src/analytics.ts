@@ -22,6 +22,12 @@ export function trackInitialized(config: {
   mutationRate: number;
   characterSet: string;
   selectionStrategy: string;
+  fitnessStrategy: string;
+  eliteCount: number;
+  crossoverStrategy: string;
+  crossoverRate: number;
+  crossoverPoints: number;
+  uniformSwapRate: number;
 }): void {
   track('ga_initialized', config);
 }
@@ -0,0 +1,424 @@
+/**
+ * Headless command-line runner for batch experiments
+ * Usage: npm run cli -- --target "Hello World" --runs 10 --format csv
+ */
+
+import { parseArgs } from 'node:util';
+import { GeneticAlgorithm } from './lib/GeneticAlgorithm';
+import type {
+  GeneticAlgorithmConfig,
+  GenerationStats,
+  CharacterSet,
+  SelectionStrategy,
+  CrossoverStrategy,
+  MigrationTopology,
+  StagnationResponse,
+  NichingStrategy,
+  TargetMode,
+  TargetChangeTrigger,
+  SecondObjective,
+} from './lib/GeneticAlgorithm';
+import type { FitnessStrategy } from './lib/FitnessFunctions';
+import { generateSeed } from './lib/Random';
+import { toCsv } from './lib/Csv';
+
+type OutputFormat = 'csv' | 'json';
+
+const CHARACTER_SETS: CharacterSet[] = [
+  'letters-space',
+  'alphanumeric-space',
+  'printable-ascii',
+  'lowercase-space',
+  'digits',
+  'dna',
+  'latin-accented',
+  'greek',
+  'cyrillic',
+  'emoji',
+  'custom',
+];
+const SELECTION_STRATEGIES: SelectionStrategy[] = [
+  'elitism',
+  'semi-elitism',
+  'random',
+  'tournament',
+  'roulette',
+  'rank',
+  'boltzmann',
+];
+const CROSSOVER_STRATEGIES: CrossoverStrategy[] = [
+  'single-point',
+  'two-point',
+  'k-point',
+  'uniform',
+  'clone',
+];
+// 'custom' needs a callback, which cannot be passed on the command line
+const FITNESS_STRATEGIES: FitnessStrategy[] = [
+  'positional',
+  'case-insensitive',
+  'levenshtein',
+  'character-closeness',
+  'longest-common-substring',
+];
+const STAGNATION_RESPONSES: StagnationResponse[] = ['none', 'immigrants', 'restart'];
+const MIGRATION_TOPOLOGIES: MigrationTopology[] = ['ring', 'fully-connected', 'random'];
+const NICHING_STRATEGIES: NichingStrategy[] = ['none', 'sharing', 'crowding'];
+const TARGET_MODES: TargetMode[] = ['single', 'multi', 'cycle', 'drift'];
+const TARGET_CHANGE_TRIGGERS: TargetChangeTrigger[] = ['interval', 'completion'];
+const SECOND_OBJECTIVES: SecondObjective[] = ['none', 'few-vowels', 'second-target'];
+const OUTPUT_FORMATS: OutputFormat[] = ['csv', 'json'];
+
+interface GenerationRow {
+  run: number;
+  seed: number;
+  generation: number;
+  bestFitness: number;
+  averageFitness: number;
+  maxFitness: number;
+  diversity: number;
+  hammingDistance: number;
+  locusEntropy: number;
+  fitnessStdDev: number;
+  mutationRate: number;
+  bestDna: string;
+  // Moving-target runs only
+  target?: string;
+  targetChanged?: boolean;
+  // Multi-objective runs only
+  paretoFrontSize?: number;
+}
+
+interface SummaryRow {
+  run: number;
+  seed: number;
+  generations: number;
+  solved: boolean;
+  bestFitness: number;
+  maxFitness: number;
+  durationMs: number;
+  bestDna: string;
+  // Moving-target runs only
+  targetChanges?: number;
+  meanReadaptation?: number | null;
+  missedReadaptations?: number;
+  // Multi-objective runs only
+  paretoFrontSize?: number;
+}
+
+const HELP = `Usage: npm run cli -- [options]
+
+Genetic algorithm options:
+  --target <text>            Target string (default "Hello World")
+  --population <n>           Population size (default 500)
+  --survival <percent>       Survival percentage 1-100 (default 20)
+  --mutation <percent>       Mutation rate in percent; 0 disables mutation (default 1)
+  --charset <name>           Character set (default letters-space)
+  --custom-chars <text>      Alphabet for --charset custom
+  --strategy <name>          Selection strategy (default elitism)
+  --elite <n>                Elite count for non-elitism strategies (default 0)
+  --tournament-size <k>      Tournament size (default 3)
+  --temperature <t>          Boltzmann temperature (default 1)
+  --crossover <name>         Crossover operator (default single-point)
+  --crossover-rate <percent> Crossover probability in percent (default 100)
+  --crossover-points <k>     Cut points for k-point crossover (default 3)
+  --swap-rate <percent>      Per-gene swap probability for uniform crossover (default 50)
+  --fitness <name>           Fitness function (default positional)
+  --variable-length          Random initial lengths with insertion/deletion mutations
+  --min-length <n>           Shortest initial string with --variable-length (default 1)
+  --max-length <n>           Longest initial string with --variable-length (default 2× target)
+  --insertion-rate <percent> Per-position insertion probability in percent (default 0.5)
+  --deletion-rate <percent>  Per-position deletion probability in percent (default 0.5)
+  --stagnation <n>           Generations without improvement that count as stagnation (default 50)
+  --mutation-decay           Lower the mutation rate as the best approaches the target
+  --hypermutation            Multiply the mutation rate for a while whenever stagnation is reached
+  --hyper-multiplier <x>     Hypermutation rate multiplier (default 10)
+  --hyper-duration <n>       Generations each hypermutation burst lasts (default 5)
+  --stagnation-response <name>
+                             On stagnation: none, immigrants or restart (default none)
+  --replacement <percent>    Share of the worst replaced by immigrants or a restart (default 20)
+  --islands <n>              Sub-populations evolving separately (default 1)
+  --migration-interval <n>   Generations between migrations (default 10)
+  --topology <name>          Migration topology: ring, fully-connected or random (default ring)
+  --migrants <n>             Individuals each island sends per link (default 2)
+  --niching <name>           Niching: none, sharing or crowding (default none)
+  --sharing-radius <n>       Hamming distance within which fitness is shared (default 3)
+  --eliminate-duplicates     Replace repeated strings in each generation with random ones
+  --target-mode <name>       single, multi, cycle or drift (default single)
+  --extra-target <text>      Further target for multi or cycle mode; repeat for more
+  --target-change <name>     When a moving target changes: interval or completion (default interval)
+  --change-interval <n>      Generations between target changes (default 100)
+  --drift-edits <n>          Characters changed each time a drifting target moves (default 1)
+  --objective <name>         Second objective: none, few-vowels or second-target (default none)
+  --second-target <text>     Phrase scored by --objective second-target
+
+Experiment options:
+  --generations <n>          Maximum generations per run (default 1000)
+  --runs <n>                 Number of repeated runs (default 1)
+  --seed <n>                 Seed of the first run; run i uses seed + i (default random)
+  --per-generation           Print every generation instead of one summary line per run
+  --format <csv|json>        Output format (default csv)
+  --help                     Show this help
+`;
+
+function describeRange(kind: string, min: number, max: number): string {
+  if (Number.isFinite(min) && Number.isFinite(max)) return `${kind} from ${min} to ${max}`;
+  if (Number.isFinite(min)) return `${kind} of at least ${min}`;
+  return kind;
+}
+
+function parseNumber(
+  name: string,
+  value: string | undefined,
+  fallback: number,
+  min = -Infinity,
+  max = Infinity,
+): number {
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`--${name} must be ${describeRange('a number', min, max)}, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseInteger(
+  name: string,
+  value: string | undefined,
+  fallback: number,
+  min = -Infinity,
+  max = Infinity,
+): number {
+  if (value === undefined) return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+    throw new Error(
+      `--${name} must be ${describeRange('a whole number', min, max)}, got "${value}"`,
+    );
+  }
+  return parsed;
+}
+
+function parseChoice<T extends string>(name: string, value: string | undefined, choices: T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new Error(`--${name} must be one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value as T;
+}
+
+function formatRows<T extends object>(rows: T[], format: OutputFormat): string {
+  return format === 'json' ? JSON.stringify(rows, null, 2) : toCsv(rows);
+}
+
+function toGenerationRow(run: number, seed: number, stats: GenerationStats): GenerationRow {
+  const row: GenerationRow = {
+    run,
+    seed,
+    generation: stats.generation,
+    bestFitness: stats.bestIndividual.fitness,
+    averageFitness: Number(stats.averageFitness.toFixed(4)),
+    maxFitness: stats.maxFitness,
+    diversity: Number(stats.diversity.toFixed(2)),
+    hammingDistance: Number(stats.hammingDistance.toFixed(4)),
+    locusEntropy: Number(stats.locusEntropy.toFixed(4)),
+    fitnessStdDev: Number(stats.fitnessDistribution.standardDeviation.toFixed(4)),
+    mutationRate: stats.mutationRate,
+    bestDna: stats.bestIndividual.dna,
+  };
+  if (stats.environment) {
+    row.target = stats.environment.target;
+    row.targetChanged = stats.environment.changed;
+  }
+  if (stats.paretoFrontSize !== undefined) {
+    row.paretoFrontSize = stats.paretoFrontSize;
+  }
+  return row;
+}
+
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      target: { type: 'string', default: 'Hello World' },
+      population: { type: 'string' },
+      survival: { type: 'string' },
+      mutation: { type: 'string' },
+      charset: { type: 'string', default: 'letters-space' },
+      'custom-chars': { type: 'string' },
+      strategy: { type: 'string', default: 'elitism' },
+      elite: { type: 'string' },
+      'tournament-size': { type: 'string' },
+      temperature: { type: 'string' },
+      crossover: { type: 'string', default: 'single-point' },
+      'crossover-rate': { type: 'string' },
+      'crossover-points': { type: 'string' },
+      'swap-rate': { type: 'string' },
+      fitness: { type: 'string', default: 'positional' },
+      'variable-length': { type: 'boolean', default: false },
+      'min-length': { type: 'string' },
+      'max-length': { type: 'string' },
+      'insertion-rate': { type: 'string' },
+      'deletion-rate': { type: 'string' },
+      stagnation: { type: 'string' },
+      'mutation-decay': { type: 'boolean', default: false },
+      hypermutation: { type: 'boolean', default: false },
+      'hyper-multiplier': { type: 'string' },
+      'hyper-duration': { type: 'string' },
+      'stagnation-response': { type: 'string', default: 'none' },
+      replacement: { type: 'string' },
+      islands: { type: 'string' },
+      'migration-interval': { type: 'string' },
+      topology: { type: 'string', default: 'ring' },
+      migrants: { type: 'string' },
+      niching: { type: 'string', default: 'none' },
+      'sharing-radius': { type: 'string' },
+      'eliminate-duplicates': { type: 'boolean', default: false },
+      'target-mode': { type: 'string', default: 'single' },
+      'extra-target': { type: 'string', multiple: true },
+      'target-change': { type: 'string', default: 'interval' },
+      'change-interval': { type: 'string' },
+      'drift-edits': { type: 'string' },
+      objective: { type: 'string', default: 'none' },
+      'second-target': { type: 'string' },
+      generations: { type: 'string' },
+      runs: { type: 'string' },
+      seed: { type: 'string' },
+      'per-generation': { type: 'boolean', default: false },
+      format: { type: 'string', default: 'csv' },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(HELP);
+    return;
+  }
+
+  const format = parseChoice('format', values.format, OUTPUT_FORMATS);
+  const mutationPercent = parseNumber('mutation', values.mutation, 1, 0, 100);
+  // Left undefined when not given so the engine derives them from the target, as the UI does
+  const minLength =
+    values['min-length'] === undefined
+      ? undefined
+      : parseInteger('min-length', values['min-length'], 1, 1);
+  const maxLength =
+    values['max-length'] === undefined
+      ? undefined
+      : parseInteger('max-length', values['max-length'], 1, 1);
+  if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+    throw new Error('--min-length cannot exceed --max-length');
+  }
+
+  const baseConfig: GeneticAlgorithmConfig = {
+    target: values.target!,
+    populationSize: parseInteger('population', values.population, 500, 2),
+    survivalRate: parseInteger('survival', values.survival, 20, 1, 100),
+    mutationEnabled: mutationPercent > 0,
+    mutationRate: mutationPercent / 100,
+    characterSet: parseChoice('charset', values.charset, CHARACTER_SETS),
+    customCharacters: values['custom-chars'],
+    selectionStrategy: parseChoice('strategy', values.strategy, SELECTION_STRATEGIES),
+    eliteCount: parseInteger('elite', values.elite, 0, 0),
+    tournamentSize: parseInteger('tournament-size', values['tournament-size'], 3, 2),
+    boltzmannTemperature: parseNumber('temperature', values.temperature, 1, 0.1),
+    crossoverStrategy: parseChoice('crossover', values.crossover, CROSSOVER_STRATEGIES),
+    crossoverRate: parseNumber('crossover-rate', values['crossover-rate'], 100, 0, 100) / 100,
+    crossoverPoints: parseInteger('crossover-points', values['crossover-points'], 3, 1),
+    uniformSwapRate: parseNumber('swap-rate', values['swap-rate'], 50, 0, 100) / 100,
+    fitnessStrategy: parseChoice('fitness', values.fitness, FITNESS_STRATEGIES),
+    variableLength: values['variable-length'],
+    minLength,
+    maxLength,
+    insertionRate: parseNumber('insertion-rate', values['insertion-rate'], 0.5, 0, 100) / 100,
+    deletionRate: parseNumber('deletion-rate', values['deletion-rate'], 0.5, 0, 100) / 100,
+    stagnationThreshold: parseInteger('stagnation', values.stagnation, 50, 1),
+    mutationDecay: values['mutation-decay'],
+    hypermutation: values.hypermutation,
+    hypermutationMultiplier: parseNumber('hyper-multiplier', values['hyper-multiplier'], 10, 1),
+    hypermutationDuration: parseInteger('hyper-duration', values['hyper-duration'], 5, 1),
+    stagnationResponse: parseChoice(
+      'stagnation-response',
+      values['stagnation-response'],
+      STAGNATION_RESPONSES,
+    ),
+    stagnationReplacementRate: parseNumber('replacement', values.replacement, 20, 1, 100) / 100,
+    islandCount: parseInteger('islands', values.islands, 1, 1),
+    migrationInterval: parseInteger('migration-interval', values['migration-interval'], 10, 1),
+    migrationTopology: parseChoice('topology', values.topology, MIGRATION_TOPOLOGIES),
+    migrantCount: parseInteger('migrants', values.migrants, 2, 1),
+    niching: parseChoice('niching', values.niching, NICHING_STRATEGIES),
+    sharingRadius: parseInteger('sharing-radius', values['sharing-radius'], 3, 1),
+    eliminateDuplicates: values['eliminate-duplicates'],
+    targetMode: parseChoice('target-mode', values['target-mode'], TARGET_MODES),
+    targets: values['extra-target'],
+    targetChange: parseChoice('target-change', values['target-change'], TARGET_CHANGE_TRIGGERS),
+    targetChangeInterval: parseInteger('change-interval', values['change-interval'], 100, 1),
+    driftEdits: parseInteger('drift-edits', values['drift-edits'], 1, 1),
+    secondObjective: parseChoice('objective', values.objective, SECOND_OBJECTIVES),
+    secondTarget: values['second-target'],
+  };
+
+  // Same checks as the UI: the engine rejects pools of fewer than 2 characters, and a character
+  // missing from the pool can never evolve
+  new GeneticAlgorithm(baseConfig).validateTargetCharacters();
+
+  const maxGenerations = parseInteger('generations', values.generations, 1000, 1);
+  const runs = parseInteger('runs', values.runs, 1, 1);
+  const firstSeed = parseInteger('seed', values.seed, generateSeed(), 0);
+
+  const generationRows: GenerationRow[] = [];
+  const summaryRows: SummaryRow[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const seed = (firstSeed + run) >>> 0;
+    const ga = new GeneticAlgorithm({ ...baseConfig, seed });
+    const startTime = performance.now();
+
+    ga.initialize();
+    let stats = ga.getStats();
+    if (values['per-generation']) {
+      generationRows.push(toGenerationRow(run, seed, stats));
+      ga.onGeneration((generationStats) => {
+        generationRows.push(toGenerationRow(run, seed, generationStats));
+      });
+    }
+
+    while (!stats.isComplete && stats.generation < maxGenerations) {
+      stats = ga.step();
+    }
+
+    const summary: SummaryRow = {
+      run,
+      seed,
+      generations: stats.generation,
+      solved: stats.isComplete,
+      bestFitness: stats.bestIndividual.fitness,
+      maxFitness: stats.maxFitness,
+      durationMs: Math.round(performance.now() - startTime),
+      bestDna: stats.bestIndividual.dna,
+    };
+    if (stats.environment) {
+      summary.targetChanges = stats.environment.changes;
+      summary.meanReadaptation = stats.environment.meanReadaptation;
+      summary.missedReadaptations = stats.environment.missedReadaptations;
+    }
+    if (stats.paretoFrontSize !== undefined) {
+      summary.paretoFrontSize = stats.paretoFrontSize;
+    }
+    summaryRows.push(summary);
+  }
+
+  const output = values['per-generation']
+    ? formatRows(generationRows, format)
+    : formatRows(summaryRows, format);
+  process.stdout.write(output + '\n');
+}
+
+try {
+  main();
+} catch (e) {
+  process.stderr.write(`Error: ${e instanceof Error ? e.message : String(e)}\n`);
+  process.stderr.write('Run with --help to see the available options\n');
+  process.exitCode = 1;
+}
@@ -0,0 +1,80 @@
+export type CharacterSet =
+  | 'letters-space'
+  | 'alphanumeric-space'
+  | 'printable-ascii'
+  | 'lowercase-space'
+  | 'digits'
+  | 'dna'
+  | 'latin-accented'
+  | 'greek'
+  | 'cyrillic'
+  | 'emoji'
+  | 'custom';
+
+const UPPERCASE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+const DIGITS = '0123456789';
+
+// Splits a string into user-perceived characters by code point rather than UTF-16 unit,
+// so astral characters such as emoji are never cut in half
+export function splitCodePoints(text: string): string[] {
+  return Array.from(text);
+}
+
+function codePointRange(from: number, to: number, exclude: number[] = []): string {
+  let result = '';
+  for (let codePoint = from; codePoint <= to; codePoint++) {
+    if (!exclude.includes(codePoint)) {
+      result += String.fromCodePoint(codePoint);
+    }
+  }
+  return result;
+}
+
+export function getCharacterPool(characterSet: CharacterSet, customCharacters = ''): string[] {
+  let characters: string;
+
+  switch (characterSet) {
+    case 'letters-space':
+      characters = UPPERCASE + LOWERCASE + ' ';
+      break;
+    case 'alphanumeric-space':
+      characters = UPPERCASE + LOWERCASE + DIGITS + ' ';
+      break;
+    case 'printable-ascii':
+      // Printable ASCII characters (space to ~)
+      characters = codePointRange(32, 126);
+      break;
+    case 'lowercase-space':
+      characters = LOWERCASE + ' ';
+      break;
+    case 'digits':
+      characters = DIGITS;
+      break;
+    case 'dna':
+      characters = 'ACGT';
+      break;
+    case 'latin-accented':
+      // Basic letters plus the Latin-1 Supplement letters (À-ÿ without × and ÷)
+      characters = UPPERCASE + LOWERCASE + ' ' + codePointRange(0xc0, 0xff, [0xd7, 0xf7]);
+      break;
+    case 'greek':
+      // Greek capitals and small letters (Α-Ω, α-ω), skipping the unassigned U+03A2
+      characters = codePointRange(0x391, 0x3a9, [0x3a2]) + codePointRange(0x3b1, 0x3c9) + ' ';
+      break;
+    case 'cyrillic':
+      // Russian alphabet (А-я) plus Ё and ё
+      characters = codePointRange(0x410, 0x44f) + 'Ёё ';
+      break;
+    case 'emoji':
+      // Emoticons block (😀-🙏)
+      characters = codePointRange(0x1f600, 0x1f64f) + ' ';
+      break;
+    case 'custom':
+      characters = customCharacters;
+      break;
+  }
+
+  // De-duplicate so every character is equally likely to be drawn
+  return [...new Set(splitCodePoints(characters))];
+}
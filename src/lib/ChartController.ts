@@ -1,23 +1,131 @@
+import { SvgContext } from './SvgContext';
+import type { DrawingContext } from './SvgContext';
+
 export interface ChartData {
   generation: number;
   bestFitness: number;
   avgFitness: number;
   diversity: number;
   maxFitness: number;
+  mutationRate: number;
+  // Absent in snapshots saved before these metrics existed
+  hammingDistance?: number;
+  locusEntropy?: number;
+  fitnessStdDev?: number;
+  minFitness?: number;
+  lowerQuartileFitness?: number;
+  medianFitness?: number;
+  upperQuartileFitness?: number;
+  isStagnant?: boolean;
+  isComplete?: boolean;
+  islandBestFitness?: number[]; // island model runs only
+  target?: string; // moving-target runs only
+  targetChanged?: boolean;
+}
+
+// Metrics that can take the place of the diversity line on the right axis
+export type DiversitySeries =
+  | 'diversity'
+  | 'hammingDistance'
+  | 'locusEntropy'
+  | 'fitnessStdDev'
+  | 'minFitness'
+  | 'lowerQuartileFitness'
+  | 'medianFitness'
+  | 'upperQuartileFitness';
+
+const SERIES_LABELS: Record<DiversitySeries, string> = {
+  diversity: 'Unique strings',
+  hammingDistance: 'Hamming distance',
+  locusEntropy: 'Per-position entropy',
+  fitnessStdDev: 'Fitness std dev',
+  minFitness: 'Min fitness',
+  lowerQuartileFitness: 'Lower quartile',
+  medianFitness: 'Median fitness',
+  upperQuartileFitness: 'Upper quartile',
+};
+
+// Lines that can be shown or hidden from the legend
+export type ChartLine = 'best' | 'average' | 'diversity' | 'mutation' | 'islands';
+
+// Island lines cycle through these, avoiding the colours of the other lines
+const ISLAND_COLORS = [
+  '#00bcd4',
+  '#ba68c8',
+  '#ffeb3b',
+  '#8bc34a',
+  '#ff7043',
+  '#4dd0e1',
+  '#f48fb1',
+  '#cddc39',
+];
+
+interface GenerationRange {
+  min: number;
+  max: number;
+}
+
+// A drag either selects a range to zoom into or, with Shift held while zoomed, pans the view
+type DragState =
+  | { mode: 'zoom'; startX: number; currentX: number }
+  | { mode: 'pan'; startX: number; startRange: GenerationRange };
+
+// Drags shorter than this are treated as clicks
+const MIN_ZOOM_DRAG_PX = 5;
+// Point markers are only drawn when there is at least this much room per visible generation
+const MIN_PX_PER_MARKER = 6;
+
+interface ValueRange {
+  min: number;
+  max: number;
 }
 
 export class ChartController {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
+  private canvasContext: CanvasRenderingContext2D;
+  // Where draw calls go: the on-screen canvas, or an export target while exporting
+  private ctx: DrawingContext;
   private data: ChartData[] = [];
   private emptyMessage: HTMLElement;
+  private tooltip: HTMLElement;
+  private series: DiversitySeries = 'diversity';
+  private visibleLines: Record<ChartLine, boolean> = {
+    best: true,
+    average: true,
+    diversity: true,
+    mutation: true,
+    islands: true,
+  };
+  private logScale: boolean = false;
+  // Generations shown when zoomed in; null shows the whole run
+  private zoom: GenerationRange | null = null;
+  private drag: DragState | null = null;
+  private hoverX: number | null = null;
+  private drawFrameId: number | null = null;
+  // Width of the plot area, cached so coordinate conversions avoid a layout read per point
+  private plotWidth: number = 0;
+  // Running extents and markers, updated as points arrive so a redraw never rescans the run
+  private seriesRanges: Partial<Record<DiversitySeries, ValueRange>> = {};
+  private maxMutationRate: number = 0;
+  // Targets of different lengths change the maximum mid-run, so the axis fits the largest seen
+  private maxFitness: number = 0;
+  private stagnantSpans: GenerationRange[] = [];
+  private completionGeneration: number | null = null;
+  private targetChanges: number[] = [];
+  private islandCount: number = 0;
 
   private readonly padding = { top: 20, right: 50, bottom: 40, left: 50 };
   private readonly bestColor = '#4caf50';
   private readonly avgColor = '#646cff';
   private readonly diversityColor = '#ff9800';
+  private readonly mutationColor = '#e91e63';
+  private readonly targetChangeColor = 'rgba(255, 255, 255, 0.5)';
   private readonly gridColor = 'rgba(255, 255, 255, 0.1)';
   private readonly textColor = 'rgba(255, 255, 255, 0.6)';
+  private readonly stagnationColor = 'rgba(255, 152, 0, 0.12)';
+  private readonly selectionColor = 'rgba(100, 108, 255, 0.2)';
+  // Matches the page background so exported images read the same outside the app
+  private readonly backgroundColor = '#242424';
 
   constructor(canvasId: string, emptyMessageId: string) {
     this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
@@ -31,9 +139,15 @@ export class ChartController {
     if (!ctx) {
       throw new Error('Could not get 2D context from canvas');
     }
+    this.canvasContext = ctx;
     this.ctx = ctx;
 
+    this.tooltip = document.createElement('div');
+    this.tooltip.className = 'chart-tooltip hidden';
+    this.canvas.parentElement?.appendChild(this.tooltip);
+
     this.setupCanvas();
+    this.attachPointerListeners();
     window.addEventListener('resize', () => this.setupCanvas());
   }
 
@@ -48,107 +162,514 @@ export class ChartController {
     this.canvas.height = rect.height * dpr;
     this.canvas.style.width = `${rect.width}px`;
     this.canvas.style.height = `${rect.height}px`;
+    this.plotWidth = rect.width - this.padding.left - this.padding.right;
 
-    this.ctx.scale(dpr, dpr);
+    this.canvasContext.scale(dpr, dpr);
 
     if (this.data.length > 0) {
       this.draw();
     }
   }
 
-  public addDataPoint(
-    generation: number,
-    bestFitness: number,
-    avgFitness: number,
-    diversity: number,
-    maxFitness: number,
-  ): void {
-    this.data.push({ generation, bestFitness, avgFitness, diversity, maxFitness });
+  private attachPointerListeners(): void {
+    this.canvas.addEventListener('mousedown', (event) => {
+      const x = this.pointerX(event);
+      if (this.data.length === 0 || !this.isInPlot(x)) return;
+
+      this.drag =
+        event.shiftKey && this.zoom
+          ? { mode: 'pan', startX: x, startRange: this.zoom }
+          : { mode: 'zoom', startX: x, currentX: x };
+      event.preventDefault();
+    });
+
+    this.canvas.addEventListener('mousemove', (event) => {
+      const x = this.pointerX(event);
+      this.hoverX = this.isInPlot(x) ? x : null;
+
+      if (this.drag?.mode === 'zoom') {
+        this.drag.currentX = x;
+      } else if (this.drag?.mode === 'pan') {
+        this.pan(this.drag.startRange, x - this.drag.startX);
+      }
+      this.scheduleDraw();
+    });
+
+    this.canvas.addEventListener('mouseleave', () => {
+      this.hoverX = null;
+      this.scheduleDraw();
+    });
+
+    // Listen on the window so a drag released outside the canvas still ends
+    window.addEventListener('mouseup', () => {
+      if (!this.drag) return;
+
+      const drag = this.drag;
+      this.drag = null;
+      if (drag.mode === 'zoom' && Math.abs(drag.currentX - drag.startX) >= MIN_ZOOM_DRAG_PX) {
+        const first = this.generationAt(Math.min(drag.startX, drag.currentX));
+        const last = this.generationAt(Math.max(drag.startX, drag.currentX));
+        this.zoom = { min: first, max: last };
+      }
+      this.scheduleDraw();
+    });
+
+    this.canvas.addEventListener('dblclick', () => this.resetZoom());
+  }
+
+  // Adds one or more generations and redraws only once
+  public addDataPoints(points: ChartData[]): void {
+    if (points.length === 0) return;
+
+    const wasEmpty = this.data.length === 0;
+    for (const point of points) {
+      this.data.push(point);
+      this.trackPoint(point);
+    }
 
-    if (this.data.length === 1) {
+    if (wasEmpty) {
       this.canvas.classList.add('active');
       this.emptyMessage.classList.add('hidden');
     }
 
-    this.draw();
+    // Zero-delay runs deliver many batches per frame; draw only the latest state
+    this.scheduleDraw();
+  }
+
+  private trackPoint(point: ChartData): void {
+    for (const series of Object.keys(SERIES_LABELS) as DiversitySeries[]) {
+      const value = point[series];
+      if (value === undefined || !Number.isFinite(value)) continue;
+
+      const range = this.seriesRanges[series];
+      if (range) {
+        range.min = Math.min(range.min, value);
+        range.max = Math.max(range.max, value);
+      } else {
+        this.seriesRanges[series] = { min: value, max: value };
+      }
+    }
+    this.maxMutationRate = Math.max(this.maxMutationRate, point.mutationRate);
+    this.maxFitness = Math.max(this.maxFitness, point.maxFitness);
+
+    if (point.isStagnant) {
+      const last = this.stagnantSpans[this.stagnantSpans.length - 1];
+      const previous = this.data[this.data.length - 2];
+      // Extend the open span when the previous generation was stagnant too
+      if (last && previous?.isStagnant && last.max === previous.generation) {
+        last.max = point.generation;
+      } else {
+        this.stagnantSpans.push({ min: point.generation, max: point.generation });
+      }
+    }
+    if (point.isComplete && this.completionGeneration === null) {
+      this.completionGeneration = point.generation;
+    }
+    if (point.targetChanged) {
+      this.targetChanges.push(point.generation);
+    }
+    this.islandCount = Math.max(this.islandCount, point.islandBestFitness?.length ?? 0);
+  }
+
+  public setSeries(series: DiversitySeries): void {
+    this.series = series;
+    this.scheduleDraw();
+  }
+
+  public setLineVisible(line: ChartLine, visible: boolean): void {
+    this.visibleLines[line] = visible;
+    this.scheduleDraw();
+  }
+
+  public isLineVisible(line: ChartLine): boolean {
+    return this.visibleLines[line];
+  }
+
+  public setLogScale(enabled: boolean): void {
+    this.logScale = enabled;
+    this.scheduleDraw();
+  }
+
+  // For layout changes that resize the container without resizing the window
+  public resize(): void {
+    this.setupCanvas();
+  }
+
+  public resetZoom(): void {
+    this.zoom = null;
+    this.scheduleDraw();
+  }
+
+  public getData(): ChartData[] {
+    return [...this.data];
   }
 
   public clear(): void {
     this.data = [];
+    this.seriesRanges = {};
+    this.maxMutationRate = 0;
+    this.maxFitness = 0;
+    this.stagnantSpans = [];
+    this.completionGeneration = null;
+    this.targetChanges = [];
+    this.islandCount = 0;
+    this.zoom = null;
+    this.drag = null;
+    this.hoverX = null;
+    this.tooltip.classList.add('hidden');
     this.canvas.classList.remove('active');
     this.emptyMessage.classList.remove('hidden');
     this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
   }
 
+  // Coalesce new data, settings changes and pointer moves into at most one redraw per frame
+  private scheduleDraw(): void {
+    if (this.drawFrameId !== null) return;
+
+    this.drawFrameId = requestAnimationFrame(() => {
+      this.drawFrameId = null;
+      this.draw();
+    });
+  }
+
+  private pointerX(event: MouseEvent): number {
+    return event.clientX - this.canvas.getBoundingClientRect().left;
+  }
+
+  private isInPlot(x: number): boolean {
+    return x >= this.padding.left && x <= this.padding.left + this.plotWidth;
+  }
+
+  private getFullRange(): GenerationRange {
+    return { min: this.data[0].generation, max: this.data[this.data.length - 1].generation };
+  }
+
+  private getGenerationRange(): GenerationRange {
+    return this.zoom ?? this.getFullRange();
+  }
+
+  // Generations are plotted as log10(generation + 1) on a log axis so generation 0 still fits
+  private scaleGeneration(generation: number): number {
+    return this.logScale ? Math.log10(generation + 1) : generation;
+  }
+
+  private unscaleGeneration(value: number): number {
+    return this.logScale ? 10 ** value - 1 : value;
+  }
+
+  private xFor(generation: number): number {
+    return this.getXMapper()(generation);
+  }
+
+  // Generation-to-pixel conversion with the view resolved once, for loops over many points
+  private getXMapper(): (generation: number) => number {
+    const range = this.getGenerationRange();
+    const min = this.scaleGeneration(range.min);
+    const pxPerUnit = this.plotWidth / (this.scaleGeneration(range.max) - min || 1);
+    const left = this.padding.left;
+    return this.logScale
+      ? (generation) => left + (Math.log10(generation + 1) - min) * pxPerUnit
+      : (generation) => left + (generation - min) * pxPerUnit;
+  }
+
+  private generationAt(x: number): number {
+    const range = this.getGenerationRange();
+    const min = this.scaleGeneration(range.min);
+    const max = this.scaleGeneration(range.max);
+    const ratio = (x - this.padding.left) / (this.plotWidth || 1);
+    return this.unscaleGeneration(min + ratio * (max - min));
+  }
+
+  // Shifts the zoomed window, in the axis' own (possibly logarithmic) units, without leaving the run
+  private pan(startRange: GenerationRange, deltaX: number): void {
+    const full = this.getFullRange();
+    const min = this.scaleGeneration(startRange.min);
+    const max = this.scaleGeneration(startRange.max);
+    const fullMin = this.scaleGeneration(full.min);
+    const fullMax = this.scaleGeneration(full.max);
+
+    let shift = -(deltaX / (this.plotWidth || 1)) * (max - min);
+    shift = Math.max(fullMin - min, Math.min(fullMax - max, shift));
+    this.zoom = {
+      min: this.unscaleGeneration(min + shift),
+      max: this.unscaleGeneration(max + shift),
+    };
+  }
+
+  // Index of the first data point at or after the given generation (the last point if none is)
+  private lowerBound(generation: number): number {
+    let low = 0;
+    let high = this.data.length - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.data[middle].generation < generation) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  // Index of the data point whose generation is closest to the given one
+  private nearestIndex(generation: number): number {
+    const low = this.lowerBound(generation);
+    if (
+      low > 0 &&
+      generation - this.data[low - 1].generation < this.data[low].generation - generation
+    ) {
+      return low - 1;
+    }
+    return low;
+  }
+
+  // The chart as currently shown (series, hidden lines, zoom and axis scale), without hover overlays
+  public toPng(): Promise<Blob> {
+    const dpr = window.devicePixelRatio || 1;
+    const { width, height } = this.getExportSize();
+    const image = document.createElement('canvas');
+    image.width = width * dpr;
+    image.height = height * dpr;
+
+    const ctx = image.getContext('2d');
+    if (!ctx) {
+      return Promise.reject(new Error('Could not get 2D context from canvas'));
+    }
+    ctx.scale(dpr, dpr);
+    this.renderTo(ctx, width, height);
+
+    return new Promise((resolve, reject) => {
+      image.toBlob((blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Could not encode the chart as PNG'));
+        }
+      }, 'image/png');
+    });
+  }
+
+  public toSvg(): string {
+    const { width, height } = this.getExportSize();
+    const svg = new SvgContext(width, height);
+    this.renderTo(svg, width, height);
+    return svg.toString();
+  }
+
+  private getExportSize(): { width: number; height: number } {
+    const rect = this.canvas.getBoundingClientRect();
+    return { width: rect.width, height: rect.height };
+  }
+
+  // Runs the normal drawing code against another context on a solid background
+  private renderTo(ctx: DrawingContext, width: number, height: number): void {
+    ctx.fillStyle = this.backgroundColor;
+    ctx.fillRect(0, 0, width, height);
+
+    this.ctx = ctx;
+    try {
+      this.render(width, height, false);
+    } finally {
+      this.ctx = this.canvasContext;
+    }
+  }
+
   private draw(): void {
     if (this.data.length === 0) return;
 
     const rect = this.canvas.parentElement?.getBoundingClientRect();
     if (!rect) return;
 
-    const width = rect.width;
-    const height = rect.height;
-
     // Clear canvas
-    this.ctx.clearRect(0, 0, width, height);
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+    this.render(rect.width, rect.height, true);
+  }
+
+  // Interactive renders add the zoom selection, hover guide and tooltip
+  private render(width: number, height: number, interactive: boolean): void {
+    if (this.data.length === 0) return;
 
     // Calculate chart dimensions
     const chartWidth = width - this.padding.left - this.padding.right;
     const chartHeight = height - this.padding.top - this.padding.bottom;
+    this.plotWidth = chartWidth;
 
     // Find data ranges
-    const maxGen = Math.max(...this.data.map((d) => d.generation));
-    const maxFit = this.data[0].maxFitness;
-    const minGen = 0;
+    const range = this.getGenerationRange();
+    const maxFit = this.maxFitness;
     const minFit = 0;
 
-    // Dynamic diversity range for better visibility
-    const diversityValues = this.data.map((d) => d.diversity);
-    const maxDiv = Math.ceil(Math.max(...diversityValues));
-    const minDiv = Math.floor(Math.min(...diversityValues));
+    // Dynamic range for the selected diversity series for better visibility
+    const seriesRange = this.seriesRanges[this.series];
+    const maxDiv = seriesRange ? Math.ceil(seriesRange.max) : 1;
+    const minDiv = seriesRange ? Math.floor(seriesRange.min) : 0;
 
     // Draw grid and axes
-    this.drawGrid(chartWidth, chartHeight, maxGen, maxFit, maxDiv, minDiv);
+    this.drawGrid(chartWidth, chartHeight, range, maxFit, maxDiv, minDiv);
+
+    // Keep lines and markers from spilling outside the plot when zoomed in
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(this.padding.left, this.padding.top, chartWidth, chartHeight);
+    this.ctx.clip();
+
+    this.drawMarkers(chartHeight);
+
+    // Per-island best fitness, thinner and underneath so the overall best stays on top
+    if (this.visibleLines.islands) {
+      for (let island = 0; island < this.islandCount; island++) {
+        this.drawLine(
+          (d) => d.islandBestFitness?.[island],
+          ISLAND_COLORS[island % ISLAND_COLORS.length],
+          chartHeight,
+          maxFit,
+          minFit,
+          false,
+          1,
+        );
+      }
+    }
 
     // Draw fitness lines (left y-axis)
-    this.drawLine(
-      this.data.map((d) => d.bestFitness),
-      this.bestColor,
-      chartWidth,
-      chartHeight,
-      maxGen,
-      maxFit,
-      minGen,
-      minFit,
-    );
-    this.drawLine(
-      this.data.map((d) => d.avgFitness),
-      this.avgColor,
-      chartWidth,
-      chartHeight,
-      maxGen,
-      maxFit,
-      minGen,
-      minFit,
-    );
+    if (this.visibleLines.best) {
+      this.drawLine((d) => d.bestFitness, this.bestColor, chartHeight, maxFit, minFit);
+    }
+    if (this.visibleLines.average) {
+      this.drawLine((d) => d.avgFitness, this.avgColor, chartHeight, maxFit, minFit);
+    }
 
     // Draw diversity line (right y-axis)
-    this.drawLine(
-      this.data.map((d) => d.diversity),
-      this.diversityColor,
-      chartWidth,
-      chartHeight,
-      maxGen,
-      maxDiv,
-      minGen,
-      minDiv,
-    );
+    if (this.visibleLines.diversity) {
+      this.drawLine((d) => d[this.series], this.diversityColor, chartHeight, maxDiv, minDiv);
+    }
+
+    // Draw effective mutation rate (dashed, scaled to its own peak so adaptive changes are visible)
+    if (this.visibleLines.mutation && this.maxMutationRate > 0) {
+      this.drawLine(
+        (d) => d.mutationRate,
+        this.mutationColor,
+        chartHeight,
+        this.maxMutationRate,
+        0,
+        true,
+      );
+    }
+
+    if (interactive) {
+      this.drawSelection(chartHeight);
+    }
+    this.ctx.restore();
+
+    if (interactive) {
+      this.drawHover(chartHeight);
+    }
+  }
+
+  // Shades stagnant stretches and marks target changes and the generation where the target was
+  // first reached
+  private drawMarkers(chartHeight: number): void {
+    this.ctx.fillStyle = this.stagnationColor;
+    for (const span of this.stagnantSpans) {
+      const start = this.xFor(span.min);
+      const end = this.xFor(span.max);
+      this.ctx.fillRect(start, this.padding.top, Math.max(end - start, 1), chartHeight);
+    }
+
+    this.ctx.strokeStyle = this.targetChangeColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.setLineDash([2, 4]);
+    this.ctx.beginPath();
+    for (const generation of this.targetChanges) {
+      const x = this.xFor(generation);
+      this.ctx.moveTo(x, this.padding.top);
+      this.ctx.lineTo(x, this.padding.top + chartHeight);
+    }
+    this.ctx.stroke();
+    this.ctx.setLineDash([]);
+
+    if (this.completionGeneration !== null) {
+      const x = this.xFor(this.completionGeneration);
+      this.ctx.strokeStyle = this.bestColor;
+      this.ctx.lineWidth = 1;
+      this.ctx.setLineDash([4, 4]);
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, this.padding.top);
+      this.ctx.lineTo(x, this.padding.top + chartHeight);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+
+      this.ctx.fillStyle = this.bestColor;
+      this.ctx.font = '12px Inter, sans-serif';
+      this.ctx.textAlign = 'right';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText(`Solved at ${this.completionGeneration}`, x - 4, this.padding.top + 4);
+    }
+  }
+
+  private drawSelection(chartHeight: number): void {
+    if (this.drag?.mode !== 'zoom') return;
+
+    const start = Math.min(this.drag.startX, this.drag.currentX);
+    const end = Math.max(this.drag.startX, this.drag.currentX);
+    this.ctx.fillStyle = this.selectionColor;
+    this.ctx.fillRect(start, this.padding.top, end - start, chartHeight);
+  }
+
+  // Vertical guide at the hovered generation plus an HTML tooltip with its exact values
+  private drawHover(chartHeight: number): void {
+    if (this.hoverX === null || this.drag) {
+      this.tooltip.classList.add('hidden');
+      return;
+    }
+
+    const point = this.data[this.nearestIndex(this.generationAt(this.hoverX))];
+    const x = this.xFor(point.generation);
+    if (!this.isInPlot(x)) {
+      this.tooltip.classList.add('hidden');
+      return;
+    }
+
+    this.ctx.strokeStyle = this.textColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(x, this.padding.top);
+    this.ctx.lineTo(x, this.padding.top + chartHeight);
+    this.ctx.stroke();
+
+    const format = (value: number | undefined) =>
+      value === undefined ? '-' : Number.isInteger(value) ? value.toString() : value.toFixed(2);
+    const diversity = point[this.series];
+    const rows = [
+      `<strong>Generation ${point.generation}</strong>`,
+      `Best: ${format(point.bestFitness)} / ${format(point.maxFitness)}`,
+      `Average: ${format(point.avgFitness)}`,
+      `${SERIES_LABELS[this.series]}: ${format(diversity)}${
+        this.series === 'diversity' && diversity !== undefined ? '%' : ''
+      }`,
+      `Mutation rate: ${(point.mutationRate * 100).toFixed(2)}%`,
+    ];
+    if (point.islandBestFitness) {
+      rows.push(
+        `Island best: ${point.islandBestFitness.map((value) => format(value)).join(' / ')}`,
+      );
+    }
+    if (point.targetChanged) rows.push('Target changed');
+    if (point.isStagnant) rows.push('Stagnant');
+    this.tooltip.innerHTML = rows.join('<br>');
+    this.tooltip.classList.remove('hidden');
+
+    // Keep the tooltip inside the chart by flipping it to the left of the guide near the right edge
+    const left = this.canvas.offsetLeft + x;
+    const flip = x > this.padding.left + this.plotWidth / 2;
+    this.tooltip.style.left = `${left}px`;
+    this.tooltip.style.top = `${this.canvas.offsetTop + this.padding.top}px`;
+    this.tooltip.style.transform = flip ? 'translateX(calc(-100% - 8px))' : 'translateX(8px)';
   }
 
   private drawGrid(
     chartWidth: number,
     chartHeight: number,
-    maxGen: number,
+    range: GenerationRange,
     maxFit: number,
     maxDiv: number,
     minDiv: number,
@@ -172,19 +693,30 @@ export class ChartController {
       // Y-axis labels (left - fitness)
       this.ctx.textAlign = 'right';
       this.ctx.textBaseline = 'middle';
-      this.ctx.fillText(Math.round(fitness).toString(), this.padding.left - 10, y);
-
-      // Y-axis labels (right - diversity %)
+      // Keep a decimal for small or fractional fitness scales so labels stay distinct
+      const fitnessLabel =
+        Number.isInteger(maxFit) && maxFit >= fitnessSteps
+          ? Math.round(fitness).toString()
+          : fitness.toFixed(1);
+      this.ctx.fillText(fitnessLabel, this.padding.left - 10, y);
+
+      // Y-axis labels (right - selected diversity series)
       const diversity = maxDiv - ((maxDiv - minDiv) * i) / fitnessSteps;
+      const diversityLabel =
+        maxDiv - minDiv >= fitnessSteps ? Math.round(diversity).toString() : diversity.toFixed(1);
       this.ctx.textAlign = 'left';
-      this.ctx.fillText(Math.round(diversity) + '%', this.padding.left + chartWidth + 10, y);
+      this.ctx.fillText(
+        diversityLabel + (this.series === 'diversity' ? '%' : ''),
+        this.padding.left + chartWidth + 10,
+        y,
+      );
     }
 
-    // Vertical grid lines (generation)
-    const genSteps = Math.min(10, maxGen);
+    // Vertical grid lines (generation), evenly spaced on screen so they also suit the log axis
+    const genSteps = Math.max(1, Math.min(10, Math.ceil(range.max - range.min)));
     for (let i = 0; i <= genSteps; i++) {
       const x = this.padding.left + (chartWidth * i) / genSteps;
-      const gen = Math.round((maxGen * i) / genSteps);
+      const gen = Math.round(this.generationAt(x));
 
       this.ctx.beginPath();
       this.ctx.moveTo(x, this.padding.top);
@@ -210,61 +742,105 @@ export class ChartController {
     this.ctx.restore();
 
     // X-axis label
+    let axisLabel = this.logScale ? 'Generation (log scale)' : 'Generation';
+    if (this.zoom) axisLabel += ' · zoomed, double-click to reset';
     this.ctx.textAlign = 'center';
     this.ctx.fillText(
-      'Generation',
+      axisLabel,
       this.padding.left + chartWidth / 2,
       this.padding.top + chartHeight + 30,
     );
   }
 
+  // Indexes of the points in view, plus one either side so lines run to the plot edges
+  private getVisibleIndexes(): { first: number; last: number } {
+    if (!this.zoom) return { first: 0, last: this.data.length - 1 };
+
+    return {
+      first: Math.max(0, this.lowerBound(this.zoom.min) - 1),
+      last: Math.min(this.data.length - 1, this.lowerBound(this.zoom.max) + 1),
+    };
+  }
+
+  // Min/max-per-pixel decimation: each pixel column strokes its first, lowest, highest and last
+  // value, which keeps every spike visible while drawing at most four points per column
   private drawLine(
-    values: number[],
+    valueOf: (point: ChartData) => number | undefined,
     color: string,
-    chartWidth: number,
     chartHeight: number,
-    maxGen: number,
-    maxFit: number,
-    minGen: number,
-    minFit: number,
+    maxValue: number,
+    minValue: number,
+    dashed: boolean = false,
+    lineWidth: number = 2,
   ): void {
-    if (values.length === 0) return;
+    const { first, last } = this.getVisibleIndexes();
+    const xFor = this.getXMapper();
+    const yFor = (value: number) =>
+      this.padding.top +
+      chartHeight -
+      ((value - minValue) / (maxValue - minValue || 1)) * chartHeight;
 
     this.ctx.strokeStyle = color;
-    this.ctx.lineWidth = 2;
+    this.ctx.lineWidth = lineWidth;
+    this.ctx.setLineDash(dashed ? [6, 4] : []);
     this.ctx.beginPath();
 
-    for (let i = 0; i < values.length; i++) {
-      const x =
-        this.padding.left +
-        ((this.data[i].generation - minGen) / (maxGen - minGen || 1)) * chartWidth;
-      const y =
-        this.padding.top +
-        chartHeight -
-        ((values[i] - minFit) / (maxFit - minFit || 1)) * chartHeight;
-
-      if (i === 0) {
-        this.ctx.moveTo(x, y);
+    let drawing = false;
+    let column: number | null = null;
+    let bucket = { x: 0, first: 0, min: 0, max: 0, last: 0 };
+    const flush = () => {
+      if (column === null) return;
+      const { x } = bucket;
+      if (drawing) {
+        this.ctx.lineTo(x, yFor(bucket.first));
       } else {
-        this.ctx.lineTo(x, y);
+        this.ctx.moveTo(x, yFor(bucket.first));
+        drawing = true;
+      }
+      if (bucket.min !== bucket.max) {
+        this.ctx.lineTo(x, yFor(bucket.min));
+        this.ctx.lineTo(x, yFor(bucket.max));
+      }
+      this.ctx.lineTo(x, yFor(bucket.last));
+      column = null;
+    };
+
+    for (let i = first; i <= last; i++) {
+      const value = valueOf(this.data[i]);
+      // Missing values leave a gap instead of dropping the line to zero
+      if (value === undefined || !Number.isFinite(value)) {
+        flush();
+        drawing = false;
+        continue;
+      }
+
+      const x = xFor(this.data[i].generation);
+      const pixel = Math.floor(x);
+      if (pixel !== column) {
+        flush();
+        column = pixel;
+        bucket = { x, first: value, min: value, max: value, last: value };
+      } else {
+        bucket.min = Math.min(bucket.min, value);
+        bucket.max = Math.max(bucket.max, value);
+        bucket.last = value;
       }
     }
+    flush();
 
     this.ctx.stroke();
+    this.ctx.setLineDash([]);
+
+    // Draw points while they are far enough apart to tell apart
+    if ((last - first + 1) * MIN_PX_PER_MARKER > this.plotWidth) return;
 
-    // Draw points
     this.ctx.fillStyle = color;
-    for (let i = 0; i < values.length; i++) {
-      const x =
-        this.padding.left +
-        ((this.data[i].generation - minGen) / (maxGen - minGen || 1)) * chartWidth;
-      const y =
-        this.padding.top +
-        chartHeight -
-        ((values[i] - minFit) / (maxFit - minFit || 1)) * chartHeight;
+    for (let i = first; i <= last; i++) {
+      const value = valueOf(this.data[i]);
+      if (value === undefined || !Number.isFinite(value)) continue;
 
       this.ctx.beginPath();
-      this.ctx.arc(x, y, 3, 0, Math.PI * 2);
+      this.ctx.arc(xFor(this.data[i].generation), yFor(value), lineWidth + 1, 0, Math.PI * 2);
       this.ctx.fill();
     }
   }
@@ -0,0 +1,92 @@
+import { GeneticAlgorithm } from './GeneticAlgorithm';
+import type { GeneticAlgorithmConfig, GenerationStats } from './GeneticAlgorithm';
+
+// Runs beyond this make the overlaid chart unreadable
+export const MAX_COMPARISON_RUNS = 4;
+
+export interface ComparisonPoint {
+  generation: number;
+  bestFitness: number;
+  averageFitness: number;
+}
+
+export interface ComparisonRunStatus {
+  generation: number;
+  bestFitness: number;
+  maxFitness: number;
+  bestDna: string;
+  completedAt: number | null; // generation the target was reached in
+  elapsedMs: number; // time spent stepping this run, so costly operators show up
+}
+
+export interface ComparisonRun {
+  ga: GeneticAlgorithm;
+  status: ComparisonRunStatus;
+  pending: ComparisonPoint[]; // points not yet sent to the UI
+}
+
+function record(run: ComparisonRun, stats: GenerationStats): void {
+  run.pending.push({
+    generation: stats.generation,
+    bestFitness: stats.bestIndividual.fitness,
+    averageFitness: stats.averageFitness,
+  });
+  run.status.generation = stats.generation;
+  run.status.bestFitness = stats.bestIndividual.fitness;
+  run.status.bestDna = stats.bestIndividual.dna;
+  if (stats.isComplete && run.status.completedAt === null) {
+    run.status.completedAt = stats.generation;
+  }
+}
+
+export function createRun(config: GeneticAlgorithmConfig): ComparisonRun {
+  const ga = new GeneticAlgorithm(config);
+  const startTime = performance.now();
+  ga.initialize();
+
+  const run: ComparisonRun = {
+    ga,
+    status: {
+      generation: 0,
+      bestFitness: 0,
+      maxFitness: ga.getMaxFitness(),
+      bestDna: '',
+      completedAt: null,
+      elapsedMs: performance.now() - startTime,
+    },
+    pending: [],
+  };
+  record(run, ga.getStats());
+  return run;
+}
+
+export function isFinished(run: ComparisonRun, maxGenerations: number): boolean {
+  return run.status.completedAt !== null || run.status.generation >= maxGenerations;
+}
+
+export function stepRun(run: ComparisonRun): void {
+  const startTime = performance.now();
+  const stats = run.ga.step();
+  run.status.elapsedMs += performance.now() - startTime;
+  record(run, stats);
+}
+
+// Run indexes best first: solved runs by the generation they solved in (time breaks ties),
+// then unsolved runs by how close their best string is to the target
+export function rankRuns(runs: readonly ComparisonRunStatus[]): number[] {
+  const progress = (run: ComparisonRunStatus) =>
+    run.maxFitness > 0 ? run.bestFitness / run.maxFitness : 0;
+
+  return runs
+    .map((_, index) => index)
+    .sort((a, b) => {
+      const runA = runs[a];
+      const runB = runs[b];
+      if (runA.completedAt !== null && runB.completedAt !== null) {
+        return runA.completedAt - runB.completedAt || runA.elapsedMs - runB.elapsedMs;
+      }
+      if (runA.completedAt !== null) return -1;
+      if (runB.completedAt !== null) return 1;
+      return progress(runB) - progress(runA);
+    });
+}
@@ -0,0 +1,80 @@
+import { createRun, isFinished, stepRun, MAX_COMPARISON_RUNS } from './Comparison';
+import type { ComparisonRun } from './Comparison';
+import { workerScope } from './WorkerProtocol';
+import type {
+  ComparisonWorkerRequest,
+  ComparisonWorkerResponse,
+  WorkerConfig,
+} from './WorkerProtocol';
+
+const scope = workerScope<ComparisonWorkerRequest, ComparisonWorkerResponse>();
+
+// Step the runs for up to this long before reporting and yielding so a 'stop' can get through
+const SLICE_DURATION_MS = 50;
+
+let comparisonToken = 0;
+
+function post(message: ComparisonWorkerResponse): void {
+  scope.postMessage(message);
+}
+
+function report(runs: ComparisonRun[]): void {
+  post({
+    type: 'progress',
+    points: runs.map((run) => run.pending.splice(0)),
+    runs: runs.map((run) => ({ ...run.status })),
+  });
+}
+
+function startComparison(configs: WorkerConfig[], maxGenerations: number): void {
+  if (configs.length < 2 || configs.length > MAX_COMPARISON_RUNS) {
+    throw new Error(`A comparison needs between 2 and ${MAX_COMPARISON_RUNS} runs`);
+  }
+
+  const token = ++comparisonToken;
+  const runs = configs.map((config) => createRun(config));
+  report(runs);
+
+  const slice = () => {
+    // Stopped, or superseded by a newer comparison
+    if (token !== comparisonToken) return;
+
+    // Lockstep: every unfinished run advances one generation per round, so no run gets ahead
+    const deadline = performance.now() + SLICE_DURATION_MS;
+    let active = runs.filter((run) => !isFinished(run, maxGenerations));
+    while (active.length > 0 && performance.now() < deadline) {
+      for (const run of active) {
+        stepRun(run);
+      }
+      active = active.filter((run) => !isFinished(run, maxGenerations));
+    }
+
+    report(runs);
+    if (active.length > 0) {
+      setTimeout(slice, 0);
+    } else {
+      comparisonToken++;
+      post({ type: 'done', stopped: false });
+    }
+  };
+
+  setTimeout(slice, 0);
+}
+
+scope.addEventListener('message', (event) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'start':
+        startComparison(request.configs, request.maxGenerations);
+        break;
+
+      case 'stop':
+        comparisonToken++;
+        post({ type: 'done', stopped: true });
+        break;
+    }
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
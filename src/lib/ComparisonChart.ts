@@ -0,0 +1,241 @@
+import type { ComparisonPoint } from './Comparison';
+
+// One colour per run, in the order runs are listed; the legend and summary reuse them
+export const COMPARISON_COLORS = ['#4caf50', '#646cff', '#ff9800', '#e91e63'];
+
+interface ChartRun {
+  points: ComparisonPoint[];
+  completedAt: number | null;
+}
+
+// Best (solid) and average (dashed) fitness of several runs on shared axes
+export class ComparisonChart {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private emptyMessage: HTMLElement;
+  private runs: ChartRun[] = [];
+  private maxFitness: number = 0;
+  private drawFrameId: number | null = null;
+
+  private readonly padding = { top: 20, right: 20, bottom: 40, left: 50 };
+  private readonly gridColor = 'rgba(255, 255, 255, 0.1)';
+  private readonly textColor = 'rgba(255, 255, 255, 0.6)';
+
+  constructor(canvasId: string, emptyMessageId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    this.emptyMessage = document.getElementById(emptyMessageId) as HTMLElement;
+
+    if (!this.canvas) {
+      throw new Error(`Canvas element not found: ${canvasId}`);
+    }
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get 2D context from canvas');
+    }
+    this.ctx = ctx;
+
+    this.setupCanvas();
+    window.addEventListener('resize', () => this.setupCanvas());
+  }
+
+  private setupCanvas(): void {
+    const container = this.canvas.parentElement;
+    if (!container) return;
+
+    const rect = container.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+
+    this.canvas.width = rect.width * dpr;
+    this.canvas.height = rect.height * dpr;
+    this.canvas.style.width = `${rect.width}px`;
+    this.canvas.style.height = `${rect.height}px`;
+
+    this.ctx.scale(dpr, dpr);
+    this.draw();
+  }
+
+  // Starts a new comparison; the fitness axis runs to the largest possible score of any run
+  public reset(runCount: number, maxFitness: number): void {
+    this.runs = Array.from({ length: runCount }, () => ({ points: [], completedAt: null }));
+    this.maxFitness = maxFitness;
+    this.canvas.classList.add('active');
+    this.emptyMessage.classList.add('hidden');
+    this.setupCanvas();
+  }
+
+  public addPoints(points: ComparisonPoint[][], completedAt: (number | null)[]): void {
+    points.forEach((runPoints, index) => {
+      const run = this.runs[index];
+      if (!run) return;
+      for (const point of runPoints) {
+        run.points.push(point);
+      }
+      run.completedAt = completedAt[index];
+    });
+    this.scheduleDraw();
+  }
+
+  // Several progress messages can arrive per frame; draw only the latest state
+  private scheduleDraw(): void {
+    if (this.drawFrameId !== null) return;
+
+    this.drawFrameId = requestAnimationFrame(() => {
+      this.drawFrameId = null;
+      this.draw();
+    });
+  }
+
+  private getMaxGeneration(): number {
+    let max = 1;
+    for (const run of this.runs) {
+      const last = run.points[run.points.length - 1];
+      if (last) max = Math.max(max, last.generation);
+    }
+    return max;
+  }
+
+  private draw(): void {
+    if (this.runs.length === 0) return;
+
+    const rect = this.canvas.parentElement?.getBoundingClientRect();
+    if (!rect) return;
+
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const chartWidth = rect.width - this.padding.left - this.padding.right;
+    const chartHeight = rect.height - this.padding.top - this.padding.bottom;
+    if (chartWidth <= 0 || chartHeight <= 0) return;
+
+    const maxGeneration = this.getMaxGeneration();
+    this.drawGrid(chartWidth, chartHeight, maxGeneration);
+
+    const xFor = (generation: number) =>
+      this.padding.left + (generation / maxGeneration) * chartWidth;
+    const yFor = (fitness: number) =>
+      this.padding.top + chartHeight - (fitness / (this.maxFitness || 1)) * chartHeight;
+
+    this.runs.forEach((run, index) => {
+      const color = COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+      this.drawLine(run.points, (point) => point.averageFitness, xFor, yFor, color, true);
+      this.drawLine(run.points, (point) => point.bestFitness, xFor, yFor, color, false);
+
+      if (run.completedAt !== null) {
+        const x = xFor(run.completedAt);
+        this.ctx.strokeStyle = color;
+        this.ctx.lineWidth = 1;
+        this.ctx.setLineDash([4, 4]);
+        this.ctx.beginPath();
+        this.ctx.moveTo(x, this.padding.top);
+        this.ctx.lineTo(x, this.padding.top + chartHeight);
+        this.ctx.stroke();
+        this.ctx.setLineDash([]);
+      }
+    });
+  }
+
+  // Draws the lowest and highest value in each pixel column, so long runs stay cheap to draw
+  // without hiding any dips
+  private drawLine(
+    points: ComparisonPoint[],
+    valueOf: (point: ComparisonPoint) => number,
+    xFor: (generation: number) => number,
+    yFor: (value: number) => number,
+    color: string,
+    dashed: boolean,
+  ): void {
+    if (points.length === 0) return;
+
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = dashed ? 1.5 : 2;
+    this.ctx.setLineDash(dashed ? [6, 4] : []);
+    this.ctx.beginPath();
+
+    let column = Math.round(xFor(points[0].generation));
+    let min = valueOf(points[0]);
+    let max = min;
+    this.ctx.moveTo(column, yFor(min));
+    for (let i = 1; i < points.length; i++) {
+      const x = Math.round(xFor(points[i].generation));
+      const value = valueOf(points[i]);
+      if (x === column) {
+        min = Math.min(min, value);
+        max = Math.max(max, value);
+        continue;
+      }
+      if (min !== max) {
+        this.ctx.lineTo(column, yFor(min));
+        this.ctx.lineTo(column, yFor(max));
+      }
+      column = x;
+      min = max = value;
+      this.ctx.lineTo(x, yFor(value));
+    }
+    if (min !== max) {
+      this.ctx.lineTo(column, yFor(min));
+      this.ctx.lineTo(column, yFor(max));
+    }
+
+    this.ctx.stroke();
+    this.ctx.setLineDash([]);
+  }
+
+  private drawGrid(chartWidth: number, chartHeight: number, maxGeneration: number): void {
+    this.ctx.strokeStyle = this.gridColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.font = '12px Inter, sans-serif';
+    this.ctx.fillStyle = this.textColor;
+
+    const fitnessSteps = 5;
+    for (let i = 0; i <= fitnessSteps; i++) {
+      const y = this.padding.top + (chartHeight * i) / fitnessSteps;
+      const fitness = this.maxFitness - (this.maxFitness * i) / fitnessSteps;
+
+      this.ctx.beginPath();
+      this.ctx.moveTo(this.padding.left, y);
+      this.ctx.lineTo(this.padding.left + chartWidth, y);
+      this.ctx.stroke();
+
+      this.ctx.textAlign = 'right';
+      this.ctx.textBaseline = 'middle';
+      const label =
+        Number.isInteger(this.maxFitness) && this.maxFitness >= fitnessSteps
+          ? Math.round(fitness).toString()
+          : fitness.toFixed(1);
+      this.ctx.fillText(label, this.padding.left - 10, y);
+    }
+
+    const genSteps = Math.max(1, Math.min(10, maxGeneration));
+    for (let i = 0; i <= genSteps; i++) {
+      const x = this.padding.left + (chartWidth * i) / genSteps;
+
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, this.padding.top);
+      this.ctx.lineTo(x, this.padding.top + chartHeight);
+      this.ctx.stroke();
+
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText(
+        Math.round((maxGeneration * i) / genSteps).toString(),
+        x,
+        this.padding.top + chartHeight + 10,
+      );
+    }
+
+    this.ctx.font = 'bold 12px Inter, sans-serif';
+    this.ctx.save();
+    this.ctx.translate(15, this.padding.top + chartHeight / 2);
+    this.ctx.rotate(-Math.PI / 2);
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('Fitness', 0, 0);
+    this.ctx.restore();
+
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(
+      'Generation',
+      this.padding.left + chartWidth / 2,
+      this.padding.top + chartHeight + 30,
+    );
+  }
+}
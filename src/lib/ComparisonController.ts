@@ -0,0 +1,401 @@
+import { GeneticAlgorithm } from './GeneticAlgorithm';
+import type {
+  CrossoverStrategy,
+  GeneticAlgorithmConfig,
+  SelectionStrategy,
+} from './GeneticAlgorithm';
+import { rankRuns, MAX_COMPARISON_RUNS } from './Comparison';
+import type { ComparisonRunStatus } from './Comparison';
+import { ComparisonChart, COMPARISON_COLORS } from './ComparisonChart';
+import { ComparisonRunner } from './ComparisonRunner';
+import type { ComparisonWorkerResponse } from './WorkerProtocol';
+import { generateSeed } from './Random';
+
+// Settings each run can override; everything else comes from the main form
+interface RunSettings {
+  label: string;
+  selectionStrategy: SelectionStrategy;
+  crossoverStrategy: CrossoverStrategy;
+  populationSize: number;
+  survivalRate: number; // percentage 1-100
+  mutationRate: number; // percentage, 0 disables mutation
+}
+
+// Drives the comparison section: several configurations evolving against the same target at once
+export class ComparisonController {
+  private runner: ComparisonRunner;
+  private chart: ComparisonChart;
+  private getBaseConfig: () => GeneticAlgorithmConfig;
+  private labels: string[] = [];
+  private statuses: ComparisonRunStatus[] = [];
+  private isRunning = false;
+  private comparisonSeed = 0;
+  private maxGenerations = 0;
+
+  private runsTableBody: HTMLTableSectionElement;
+  private runTemplate: HTMLTemplateElement;
+  private selectionOptions: string;
+  private crossoverOptions: string;
+  private maxGenerationsInput: HTMLInputElement;
+  private seedInput: HTMLInputElement;
+  private sameSeedToggle: HTMLInputElement;
+
+  private addRunButton: HTMLButtonElement;
+  private startButton: HTMLButtonElement;
+  private stopButton: HTMLButtonElement;
+
+  private statusDisplay: HTMLElement;
+  private legend: HTMLElement;
+  private resultsBody: HTMLTableSectionElement;
+
+  constructor(getBaseConfig: () => GeneticAlgorithmConfig) {
+    this.getBaseConfig = getBaseConfig;
+
+    this.runsTableBody = this.getElement<HTMLTableElement>('#comparisonRuns').tBodies[0];
+    this.runTemplate = this.getElement<HTMLTemplateElement>('#comparisonRunTemplate');
+    // Offer the same operators as the main form without listing them twice in the markup
+    this.selectionOptions = this.getElement<HTMLSelectElement>('#selectionStrategy').innerHTML;
+    this.crossoverOptions = this.getElement<HTMLSelectElement>('#crossoverStrategy').innerHTML;
+    this.maxGenerationsInput = this.getElement<HTMLInputElement>('#comparisonMaxGenerations');
+    this.seedInput = this.getElement<HTMLInputElement>('#comparisonSeed');
+    this.sameSeedToggle = this.getElement<HTMLInputElement>('#comparisonSameSeed');
+
+    this.addRunButton = this.getElement<HTMLButtonElement>('#comparisonAddRunBtn');
+    this.startButton = this.getElement<HTMLButtonElement>('#comparisonStartBtn');
+    this.stopButton = this.getElement<HTMLButtonElement>('#comparisonStopBtn');
+
+    this.statusDisplay = this.getElement('#comparisonStatus');
+    this.legend = this.getElement('#comparisonLegend');
+    this.resultsBody = this.getElement<HTMLTableElement>('#comparisonResults').tBodies[0];
+
+    this.chart = new ComparisonChart('comparisonChart', 'comparisonEmptyMessage');
+    this.runner = new ComparisonRunner((message) => this.handleWorkerMessage(message));
+
+    // Start with the form's settings against a different selection strategy
+    const base = this.getBaseConfig();
+    const baseSettings: RunSettings = {
+      label: 'Run A',
+      selectionStrategy: base.selectionStrategy,
+      crossoverStrategy: base.crossoverStrategy ?? 'single-point',
+      populationSize: base.populationSize,
+      survivalRate: base.survivalRate,
+      mutationRate: (base.mutationRate ?? 0.01) * 100,
+    };
+    this.addRun(baseSettings);
+    this.addRun({
+      ...baseSettings,
+      label: 'Run B',
+      selectionStrategy: baseSettings.selectionStrategy === 'tournament' ? 'elitism' : 'tournament',
+    });
+
+    this.attachEventListeners();
+    this.updateButtonStates();
+  }
+
+  private getElement<T extends HTMLElement>(selector: string): T {
+    const element = document.querySelector<T>(selector);
+    if (!element) {
+      throw new Error(`Element not found: ${selector}`);
+    }
+    return element;
+  }
+
+  private attachEventListeners(): void {
+    this.addRunButton.addEventListener('click', () => {
+      const rows = this.getRunRows();
+      const last = this.readRow(rows[rows.length - 1]);
+      this.addRun({ ...last, label: `Run ${String.fromCharCode(65 + rows.length)}` });
+      this.updateButtonStates();
+    });
+    this.startButton.addEventListener('click', () => this.handleStart());
+    this.stopButton.addEventListener('click', () => this.runner.stop());
+
+    this.runsTableBody.addEventListener('click', (event) => {
+      const button = (event.target as HTMLElement).closest('[data-action="remove"]');
+      if (!button || this.isRunning) return;
+      button.closest('tr')?.remove();
+      this.updateButtonStates();
+    });
+  }
+
+  private getRunRows(): HTMLTableRowElement[] {
+    return Array.from(this.runsTableBody.rows);
+  }
+
+  private field<T extends HTMLInputElement | HTMLSelectElement>(
+    row: HTMLTableRowElement,
+    name: keyof RunSettings,
+  ): T {
+    return row.querySelector<T>(`[data-field="${name}"]`)!;
+  }
+
+  private addRun(settings: RunSettings): void {
+    const fragment = this.runTemplate.content.cloneNode(true) as DocumentFragment;
+    const row = fragment.querySelector('tr')!;
+    this.field<HTMLSelectElement>(row, 'selectionStrategy').innerHTML = this.selectionOptions;
+    this.field<HTMLSelectElement>(row, 'crossoverStrategy').innerHTML = this.crossoverOptions;
+
+    this.field(row, 'label').value = settings.label;
+    this.field(row, 'selectionStrategy').value = settings.selectionStrategy;
+    this.field(row, 'crossoverStrategy').value = settings.crossoverStrategy;
+    this.field(row, 'populationSize').value = settings.populationSize.toString();
+    this.field(row, 'survivalRate').value = settings.survivalRate.toString();
+    this.field(row, 'mutationRate').value = settings.mutationRate.toString();
+    this.runsTableBody.appendChild(fragment);
+  }
+
+  private readRow(row: HTMLTableRowElement): RunSettings {
+    return {
+      label: this.field(row, 'label').value.trim(),
+      selectionStrategy: this.field(row, 'selectionStrategy').value as SelectionStrategy,
+      crossoverStrategy: this.field(row, 'crossoverStrategy').value as CrossoverStrategy,
+      populationSize: parseInt(this.field(row, 'populationSize').value),
+      survivalRate: parseInt(this.field(row, 'survivalRate').value),
+      mutationRate: parseFloat(this.field(row, 'mutationRate').value),
+    };
+  }
+
+  private handleStart(): void {
+    const baseConfig = this.getBaseConfig();
+    const runs = this.getRunRows().map((row) => this.readRow(row));
+    const maxGenerations = parseInt(this.maxGenerationsInput.value);
+
+    // Validation
+    if (baseConfig.interactive) {
+      this.updateStatus(
+        'Interactive runs wait for a person to rate them, so they cannot be compared',
+        'error',
+      );
+      return;
+    }
+
+    // Runs are measured by the generation they reach the target, which these modes never do
+    if (baseConfig.targetMode === 'cycle' || baseConfig.targetMode === 'drift') {
+      this.updateStatus(
+        'A moving target is never reached for good, so cycling and drifting runs cannot be compared',
+        'error',
+      );
+      return;
+    }
+
+    if (baseConfig.secondObjective !== 'none') {
+      this.updateStatus(
+        'Multi-objective runs have no single target to reach, so they cannot be compared',
+        'error',
+      );
+      return;
+    }
+
+    if (!baseConfig.target) {
+      this.updateStatus('Please enter a target string in the configuration', 'error');
+      return;
+    }
+
+    if (runs.length < 2) {
+      this.updateStatus('Add at least two runs to compare', 'error');
+      return;
+    }
+
+    if (runs.some((run) => isNaN(run.populationSize) || run.populationSize < 2)) {
+      this.updateStatus('Population size must be at least 2 for every run', 'error');
+      return;
+    }
+
+    if (
+      runs.some((run) => isNaN(run.survivalRate) || run.survivalRate < 1 || run.survivalRate > 100)
+    ) {
+      this.updateStatus('Survival percentage must be between 1 and 100 for every run', 'error');
+      return;
+    }
+
+    if (
+      runs.some((run) => isNaN(run.mutationRate) || run.mutationRate < 0 || run.mutationRate > 100)
+    ) {
+      this.updateStatus('Mutation percentage must be between 0 and 100 for every run', 'error');
+      return;
+    }
+
+    if (isNaN(maxGenerations) || maxGenerations < 1) {
+      this.updateStatus('Generation cap must be at least 1', 'error');
+      return;
+    }
+
+    let ga: GeneticAlgorithm;
+    try {
+      ga = new GeneticAlgorithm(baseConfig);
+      ga.validateTargetCharacters();
+    } catch (e) {
+      this.updateStatus(e instanceof Error ? e.message : String(e), 'error');
+      return;
+    }
+
+    this.comparisonSeed =
+      this.seedInput.value === '' ? generateSeed() : parseInt(this.seedInput.value);
+    const sameSeed = this.sameSeedToggle.checked;
+    const configs = runs.map((run, index) => ({
+      ...baseConfig,
+      populationSize: run.populationSize,
+      survivalRate: run.survivalRate,
+      mutationEnabled: run.mutationRate > 0,
+      mutationRate: run.mutationRate / 100,
+      selectionStrategy: run.selectionStrategy,
+      crossoverStrategy: run.crossoverStrategy,
+      // The same seed gives every run the same starting population, so only the operators differ
+      seed: sameSeed ? this.comparisonSeed : (this.comparisonSeed + index) >>> 0,
+    }));
+
+    this.labels = runs.map((run, index) => run.label || `Run ${String.fromCharCode(65 + index)}`);
+    this.statuses = [];
+    this.maxGenerations = maxGenerations;
+    this.isRunning = true;
+    this.chart.reset(configs.length, ga.getMaxFitness());
+    this.renderLegend();
+    this.renderResults();
+    this.updateButtonStates();
+    this.updateStatus(
+      `Comparing ${configs.length} runs for up to ${maxGenerations} generations (${
+        sameSeed ? `shared seed ${this.comparisonSeed}` : `seeds from ${this.comparisonSeed}`
+      })...`,
+      'running',
+    );
+
+    this.runner.start(configs, maxGenerations);
+  }
+
+  private handleWorkerMessage(message: ComparisonWorkerResponse): void {
+    switch (message.type) {
+      case 'progress':
+        if (!this.isRunning) return;
+        this.statuses = message.runs;
+        this.chart.addPoints(
+          message.points,
+          message.runs.map((run) => run.completedAt),
+        );
+        this.renderResults();
+        // Announce the winner as soon as there is one, while slower runs keep going
+        if (message.runs.some((run) => run.completedAt !== null)) {
+          this.updateStatus(`${this.describeOutcome()}...`, 'running');
+        }
+        break;
+
+      case 'done':
+        if (!this.isRunning) return;
+        this.isRunning = false;
+        this.updateButtonStates();
+        this.updateStatus(
+          message.stopped
+            ? `Comparison stopped. ${this.describeOutcome()}`
+            : this.describeOutcome(),
+          message.stopped ? 'info' : 'success',
+        );
+        break;
+
+      case 'error':
+        this.isRunning = false;
+        this.updateButtonStates();
+        this.updateStatus(`Comparison error: ${message.message}`, 'error');
+        break;
+    }
+  }
+
+  private describeOutcome(): string {
+    if (this.statuses.length === 0) return 'No generations ran';
+
+    const [first, second] = rankRuns(this.statuses);
+    const winner = this.statuses[first];
+    const runnerUp = this.statuses[second];
+    if (winner.completedAt === null) {
+      return `No run reached the target within ${winner.generation} generations; ${
+        this.labels[first]
+      } got closest`;
+    }
+
+    let outcome = `${this.labels[first]} converged first, at generation ${winner.completedAt}`;
+    if (runnerUp.completedAt === winner.completedAt) {
+      outcome = `${this.labels[first]} and ${this.labels[second]} both converged at generation ${
+        winner.completedAt
+      }; ${this.labels[first]} took less time`;
+    } else if (runnerUp.completedAt !== null) {
+      outcome += `, ${runnerUp.completedAt - winner.completedAt} generations ahead of ${
+        this.labels[second]
+      }`;
+    }
+    return outcome;
+  }
+
+  private renderLegend(): void {
+    this.legend.innerHTML = this.labels
+      .map(
+        (label, index) => `
+        <span class="legend-item">
+          <span class="legend-color" style="background-color: ${COMPARISON_COLORS[index]}"></span>
+          ${this.escapeHtml(label)}
+        </span>
+      `,
+      )
+      .join('');
+  }
+
+  private renderResults(): void {
+    const ranking = rankRuns(this.statuses);
+    const format = (value: number) =>
+      Number.isInteger(value) ? value.toString() : value.toFixed(2);
+
+    this.resultsBody.innerHTML = ranking
+      .map((index, rank) => {
+        const status = this.statuses[index];
+        const solved = status.completedAt !== null ? status.completedAt.toString() : '-';
+        const generations =
+          status.completedAt === null && status.generation >= this.maxGenerations
+            ? `${status.generation} (cap)`
+            : status.generation.toString();
+        return `
+        <tr>
+          <td>${rank + 1}</td>
+          <td>
+            <span class="comparison-swatch" style="background-color: ${COMPARISON_COLORS[index]}"></span>
+            ${this.escapeHtml(this.labels[index])}
+          </td>
+          <td>${solved}</td>
+          <td>${generations}</td>
+          <td>${format(status.bestFitness)} / ${format(status.maxFitness)}</td>
+          <td>${Math.round(status.elapsedMs)} ms</td>
+          <td class="comparison-dna">${this.escapeHtml(status.bestDna)}</td>
+        </tr>
+      `;
+      })
+      .join('');
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+
+  private updateStatus(message: string, type: 'success' | 'error' | 'info' | 'running'): void {
+    this.statusDisplay.textContent = message;
+    this.statusDisplay.className = `status ${type}`;
+  }
+
+  private updateButtonStates(): void {
+    const rows = this.getRunRows();
+    this.startButton.disabled = this.isRunning;
+    this.stopButton.disabled = !this.isRunning;
+    this.addRunButton.disabled = this.isRunning || rows.length >= MAX_COMPARISON_RUNS;
+    this.maxGenerationsInput.disabled = this.isRunning;
+    this.seedInput.disabled = this.isRunning;
+    this.sameSeedToggle.disabled = this.isRunning;
+
+    for (const row of rows) {
+      for (const control of row.querySelectorAll<HTMLInputElement | HTMLButtonElement>(
+        'input, select, button',
+      )) {
+        control.disabled = this.isRunning;
+      }
+      // Keep at least two runs so there is always something to compare
+      row.querySelector<HTMLButtonElement>('[data-action="remove"]')!.disabled =
+        this.isRunning || rows.length <= 2;
+    }
+  }
+}
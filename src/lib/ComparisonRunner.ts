@@ -0,0 +1,38 @@
+import type {
+  ComparisonWorkerRequest,
+  ComparisonWorkerResponse,
+  WorkerConfig,
+} from './WorkerProtocol';
+
+// Main-thread handle to a set of compared runs stepping together inside a Web Worker
+export class ComparisonRunner {
+  private worker: Worker;
+
+  constructor(onMessage: (message: ComparisonWorkerResponse) => void) {
+    this.worker = new Worker(new URL('./Comparison.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker.addEventListener('message', (event: MessageEvent<ComparisonWorkerResponse>) => {
+      onMessage(event.data);
+    });
+    this.worker.addEventListener('error', (event) => {
+      onMessage({ type: 'error', message: event.message });
+    });
+  }
+
+  private post(request: ComparisonWorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  start(configs: WorkerConfig[], maxGenerations: number): void {
+    this.post({ type: 'start', configs, maxGenerations });
+  }
+
+  stop(): void {
+    this.post({ type: 'stop' });
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+  }
+}
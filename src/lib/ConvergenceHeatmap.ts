@@ -0,0 +1,252 @@
+import type { LocusStats } from './LocusStatistics';
+
+export type ConvergenceMetric = 'correct' | 'entropy';
+
+// Once this many generations are stored, every other one is dropped so memory stays bounded
+const MAX_STORED_GENERATIONS = 4096;
+
+// Positions × generations grid showing where the population has locked in and where it drifts
+export class ConvergenceHeatmap {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private emptyMessage: HTMLElement;
+  private data: LocusStats[] = [];
+  private targetGenes: string[] = [];
+  private metric: ConvergenceMetric = 'correct';
+  // Entropy is scaled to the largest value seen, which depends on the character pool
+  private maxEntropy: number = 0;
+  private selected: { generation: number; position: number } | null = null;
+  private drawFrameId: number | null = null;
+  private onSelect: (stats: LocusStats, position: number) => void;
+
+  private readonly padding = { top: 10, right: 20, bottom: 30, left: 50 };
+  private readonly textColor = 'rgba(255, 255, 255, 0.6)';
+
+  constructor(
+    canvasId: string,
+    emptyMessageId: string,
+    onSelect: (stats: LocusStats, position: number) => void,
+  ) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    this.emptyMessage = document.getElementById(emptyMessageId) as HTMLElement;
+    this.onSelect = onSelect;
+
+    if (!this.canvas) {
+      throw new Error(`Canvas element not found: ${canvasId}`);
+    }
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get 2D context from canvas');
+    }
+    this.ctx = ctx;
+
+    this.setupCanvas();
+    window.addEventListener('resize', () => this.setupCanvas());
+    this.canvas.addEventListener('click', (event) => this.handleClick(event));
+  }
+
+  private setupCanvas(): void {
+    const container = this.canvas.parentElement;
+    if (!container) return;
+
+    const rect = container.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+
+    this.canvas.width = rect.width * dpr;
+    this.canvas.height = rect.height * dpr;
+    this.canvas.style.width = `${rect.width}px`;
+    this.canvas.style.height = `${rect.height}px`;
+
+    this.ctx.scale(dpr, dpr);
+
+    if (this.data.length > 0) {
+      this.draw();
+    }
+  }
+
+  // Row labels show the target character each position is converging towards
+  public setTarget(targetGenes: string[]): void {
+    this.targetGenes = targetGenes;
+  }
+
+  public addGenerations(loci: LocusStats[]): void {
+    if (loci.length === 0) return;
+
+    const wasEmpty = this.data.length === 0;
+    for (const stats of loci) {
+      this.data.push(stats);
+      for (const entropy of stats.entropy) {
+        this.maxEntropy = Math.max(this.maxEntropy, entropy);
+      }
+    }
+    if (this.data.length > MAX_STORED_GENERATIONS) {
+      // Keep the latest generation so the right edge of the heatmap stays live
+      const latest = this.data.length - 1;
+      this.data = this.data.filter((_, i) => (latest - i) % 2 === 0);
+    }
+
+    if (wasEmpty) {
+      this.canvas.classList.add('active');
+      this.emptyMessage.classList.add('hidden');
+      // The panel starts hidden, so size the canvas again now that it is laid out
+      this.setupCanvas();
+      return;
+    }
+
+    this.scheduleDraw();
+  }
+
+  public setMetric(metric: ConvergenceMetric): void {
+    this.metric = metric;
+    this.scheduleDraw();
+  }
+
+  public clear(): void {
+    this.data = [];
+    this.maxEntropy = 0;
+    this.selected = null;
+    this.canvas.classList.remove('active');
+    this.emptyMessage.classList.remove('hidden');
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  // Several batches can arrive per frame during zero-delay runs; draw only the latest state
+  private scheduleDraw(): void {
+    if (this.drawFrameId !== null) return;
+
+    this.drawFrameId = requestAnimationFrame(() => {
+      this.drawFrameId = null;
+      this.draw();
+    });
+  }
+
+  private getPlotSize(): { width: number; height: number } {
+    const rect = this.canvas.parentElement!.getBoundingClientRect();
+    return {
+      width: rect.width - this.padding.left - this.padding.right,
+      height: rect.height - this.padding.top - this.padding.bottom,
+    };
+  }
+
+  // More generations than pixels are sampled, keeping the latest generation of each column
+  private getColumnCount(plotWidth: number): number {
+    return Math.max(1, Math.min(this.data.length, Math.floor(plotWidth)));
+  }
+
+  private dataIndexForColumn(column: number, columns: number): number {
+    return Math.min(
+      this.data.length - 1,
+      Math.ceil(((column + 1) * this.data.length) / columns) - 1,
+    );
+  }
+
+  private draw(): void {
+    if (this.data.length === 0) return;
+
+    const rect = this.canvas.parentElement?.getBoundingClientRect();
+    if (!rect) return;
+
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const plot = this.getPlotSize();
+    const positions = this.targetGenes.length;
+    if (positions === 0 || plot.width <= 0 || plot.height <= 0) return;
+
+    const columns = this.getColumnCount(plot.width);
+    const cellWidth = plot.width / columns;
+    const cellHeight = plot.height / positions;
+
+    for (let column = 0; column < columns; column++) {
+      const stats = this.data[this.dataIndexForColumn(column, columns)];
+      const x = this.padding.left + column * cellWidth;
+      for (let position = 0; position < positions; position++) {
+        this.ctx.fillStyle = this.colorFor(stats, position);
+        // Overlap by a fraction of a pixel so adjacent cells leave no hairline gaps
+        this.ctx.fillRect(
+          x,
+          this.padding.top + position * cellHeight,
+          cellWidth + 0.5,
+          cellHeight + 0.5,
+        );
+      }
+    }
+
+    this.drawSelection(columns, cellWidth, cellHeight);
+    this.drawLabels(plot.width, plot.height, cellHeight);
+  }
+
+  private drawSelection(columns: number, cellWidth: number, cellHeight: number): void {
+    if (!this.selected) return;
+
+    const index = this.data.findIndex((stats) => stats.generation === this.selected!.generation);
+    if (index === -1) return;
+
+    // Find the column that displays the selected generation, or the one sampled in its place
+    const column = Math.min(columns - 1, Math.floor((index * columns) / this.data.length));
+    this.ctx.strokeStyle = '#fff';
+    this.ctx.lineWidth = 2;
+    this.ctx.strokeRect(
+      this.padding.left + column * cellWidth,
+      this.padding.top + this.selected.position * cellHeight,
+      Math.max(cellWidth, 2),
+      cellHeight,
+    );
+  }
+
+  private drawLabels(plotWidth: number, plotHeight: number, cellHeight: number): void {
+    this.ctx.fillStyle = this.textColor;
+    this.ctx.font = '11px sans-serif';
+
+    // Skip row labels that would overlap
+    const labelEvery = Math.ceil(12 / cellHeight);
+    this.ctx.textAlign = 'right';
+    this.ctx.textBaseline = 'middle';
+    this.targetGenes.forEach((gene, position) => {
+      if (position % labelEvery !== 0) return;
+      const y = this.padding.top + (position + 0.5) * cellHeight;
+      this.ctx.fillText(`${position} '${gene}'`, this.padding.left - 6, y);
+    });
+
+    this.ctx.textBaseline = 'top';
+    const labelY = this.padding.top + plotHeight + 8;
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText(`Gen ${this.data[0].generation}`, this.padding.left, labelY);
+    this.ctx.textAlign = 'right';
+    this.ctx.fillText(
+      `Gen ${this.data[this.data.length - 1].generation}`,
+      this.padding.left + plotWidth,
+      labelY,
+    );
+  }
+
+  private colorFor(stats: LocusStats, position: number): string {
+    if (this.metric === 'correct') {
+      // Red (nobody has the target character) through yellow to green (everyone has it)
+      return `hsl(${Math.round(stats.correct[position] * 120)}, 65%, 40%)`;
+    }
+
+    // Dark where the population agrees, bright orange where it is still spread out
+    const ratio = this.maxEntropy > 0 ? stats.entropy[position] / this.maxEntropy : 0;
+    return `hsl(36, 100%, ${Math.round(8 + ratio * 50)}%)`;
+  }
+
+  private handleClick(event: MouseEvent): void {
+    if (this.data.length === 0 || this.targetGenes.length === 0) return;
+
+    const rect = this.canvas.getBoundingClientRect();
+    const plot = this.getPlotSize();
+    const x = event.clientX - rect.left - this.padding.left;
+    const y = event.clientY - rect.top - this.padding.top;
+    if (x < 0 || y < 0 || x >= plot.width || y >= plot.height) return;
+
+    const columns = this.getColumnCount(plot.width);
+    const column = Math.floor((x / plot.width) * columns);
+    const position = Math.floor((y / plot.height) * this.targetGenes.length);
+    const stats = this.data[this.dataIndexForColumn(column, columns)];
+
+    this.selected = { generation: stats.generation, position };
+    this.draw();
+    this.onSelect(stats, position);
+  }
+}
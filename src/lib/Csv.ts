@@ -0,0 +1,18 @@
+export type CsvValue = string | number | boolean | null;
+
+function escapeCsv(value: CsvValue): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Column names come from the keys of the first row
+export function toCsv<T extends object>(rows: T[]): string {
+  if (rows.length === 0) return '';
+
+  const columns = Object.keys(rows[0]) as (keyof T)[];
+  const lines = [columns.map((column) => escapeCsv(String(column))).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsv(row[column] as CsvValue)).join(','));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,92 @@
+export type TargetMode = 'single' | 'multi' | 'cycle' | 'drift';
+export type TargetChangeTrigger = 'interval' | 'completion';
+
+// Where a moving target stands. Part of the saved state, so a resumed run keeps measuring
+// readaptation from the right place.
+export interface EnvironmentState {
+  target: string; // the target currently scored against
+  targetIndex: number; // position in the list when cycling
+  changes: number;
+  lastChangeGeneration: number;
+  // Share of the maximum score the best held just before the last change, until it is regained
+  recoveryLevel: number | null;
+  lastReadaptation: number | null;
+  totalReadaptation: number;
+  readaptations: number;
+  missedReadaptations: number;
+}
+
+export interface EnvironmentStats {
+  target: string; // the target this generation was scored against
+  changes: number; // target changes so far
+  changed: boolean; // the target changed just before this generation was bred
+  generationsSinceChange: number;
+  readapting: boolean; // the best has not yet regained its level from before the last change
+  lastReadaptation: number | null; // generations the most recent recovery took
+  meanReadaptation: number | null;
+  missedReadaptations: number; // changes that arrived before the previous one was recovered from
+}
+
+export function createEnvironment(target: string): EnvironmentState {
+  return {
+    target,
+    targetIndex: 0,
+    changes: 0,
+    lastChangeGeneration: 0,
+    recoveryLevel: null,
+    lastReadaptation: null,
+    totalReadaptation: 0,
+    readaptations: 0,
+    missedReadaptations: 0,
+  };
+}
+
+// Records that the target changed before `generation` was bred, when the best held `level` of the
+// maximum. A change that lands before the previous one was recovered from counts as missed.
+export function recordChange(
+  environment: EnvironmentState,
+  target: string,
+  generation: number,
+  level: number,
+): void {
+  if (environment.recoveryLevel !== null) {
+    environment.missedReadaptations++;
+  }
+  environment.target = target;
+  environment.changes++;
+  environment.lastChangeGeneration = generation;
+  environment.recoveryLevel = level;
+}
+
+// Closes the open readaptation once the best is back at its level from before the change
+export function recordProgress(
+  environment: EnvironmentState,
+  generation: number,
+  level: number,
+): void {
+  if (environment.recoveryLevel === null || level < environment.recoveryLevel) return;
+
+  environment.lastReadaptation = generation - environment.lastChangeGeneration;
+  environment.totalReadaptation += environment.lastReadaptation;
+  environment.readaptations++;
+  environment.recoveryLevel = null;
+}
+
+export function describeEnvironment(
+  environment: EnvironmentState,
+  generation: number,
+): EnvironmentStats {
+  return {
+    target: environment.target,
+    changes: environment.changes,
+    changed: environment.changes > 0 && environment.lastChangeGeneration === generation,
+    generationsSinceChange: generation - environment.lastChangeGeneration,
+    readapting: environment.recoveryLevel !== null,
+    lastReadaptation: environment.lastReadaptation,
+    meanReadaptation:
+      environment.readaptations > 0
+        ? environment.totalReadaptation / environment.readaptations
+        : null,
+    missedReadaptations: environment.missedReadaptations,
+  };
+}
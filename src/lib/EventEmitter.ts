@@ -0,0 +1,33 @@
+// Maps each event name to the arguments its listeners receive
+export type EventMap = Record<string, unknown[]>;
+
+export type Unsubscribe = () => void;
+
+// Minimal typed event emitter. A throwing listener is reported but never interrupts the others,
+// so a faulty plugin cannot break the simulation it observes.
+export class EventEmitter<Events extends EventMap> {
+  private listeners: { [K in keyof Events]?: Set<(...args: Events[K]) => void> } = {};
+
+  on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): Unsubscribe {
+    const listeners = (this.listeners[event] ??= new Set());
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    const listeners = this.listeners[event];
+    if (!listeners) return;
+
+    for (const listener of [...listeners]) {
+      try {
+        listener(...args);
+      } catch (e) {
+        console.error(`Error in '${String(event)}' listener:`, e);
+      }
+    }
+  }
+
+  hasListeners(event: keyof Events): boolean {
+    return (this.listeners[event]?.size ?? 0) > 0;
+  }
+}
@@ -0,0 +1,138 @@
+import { splitCodePoints } from './CharacterSets';
+
+export type FitnessStrategy =
+  | 'positional'
+  | 'case-insensitive'
+  | 'levenshtein'
+  | 'character-closeness'
+  | 'longest-common-substring'
+  | 'custom';
+
+export interface FitnessFunction {
+  // Score of a candidate string, higher is better
+  evaluate(dna: string, target: string): number;
+  // Score of a perfect solution, used for completion checks and display scaling
+  maxFitness(target: string): number;
+}
+
+// Characters further apart than this (by code point) earn no partial credit
+const CLOSENESS_RANGE = 10;
+
+// Both helpers compare by code point, so an emoji counts as one character
+export function levenshteinDistance(textA: string, textB: string): number {
+  const a = splitCodePoints(textA);
+  const b = splitCodePoints(textB);
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  // Two-row dynamic programming table
+  let previous = new Array<number>(b.length + 1);
+  let current = new Array<number>(b.length + 1);
+  for (let j = 0; j <= b.length; j++) {
+    previous[j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return previous[b.length];
+}
+
+export function longestCommonSubstring(textA: string, textB: string): number {
+  const a = splitCodePoints(textA);
+  const b = splitCodePoints(textB);
+  let longest = 0;
+  let previous = new Array<number>(b.length + 1).fill(0);
+  let current = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : 0;
+      if (current[j] > longest) {
+        longest = current[j];
+      }
+    }
+    [previous, current] = [current, previous];
+  }
+
+  return longest;
+}
+
+const targetLength = (target: string): number => splitCodePoints(target).length;
+
+// Variable-length genomes: every character too many or too few costs a point, so a string
+// padded with junk (or cut short) can never reach a perfect score
+const lengthPenalty = (dna: string[], target: string[]): number =>
+  Math.abs(dna.length - target.length);
+
+const positional: FitnessFunction = {
+  evaluate(dnaText, targetText) {
+    const dna = splitCodePoints(dnaText);
+    const target = splitCodePoints(targetText);
+    let score = 0;
+    for (let i = 0; i < dna.length; i++) {
+      if (dna[i] === target[i]) {
+        score++;
+      }
+    }
+    return Math.max(0, score - lengthPenalty(dna, target));
+  },
+  maxFitness: targetLength,
+};
+
+const caseInsensitive: FitnessFunction = {
+  evaluate(dna, target) {
+    return positional.evaluate(dna.toLowerCase(), target.toLowerCase());
+  },
+  maxFitness: targetLength,
+};
+
+const levenshtein: FitnessFunction = {
+  evaluate(dna, target) {
+    return Math.max(0, targetLength(target) - levenshteinDistance(dna, target));
+  },
+  maxFitness: targetLength,
+};
+
+const characterCloseness: FitnessFunction = {
+  evaluate(dnaText, targetText) {
+    const dna = splitCodePoints(dnaText);
+    const target = splitCodePoints(targetText);
+    let score = 0;
+    for (let i = 0; i < Math.min(dna.length, target.length); i++) {
+      const distance = Math.abs(dna[i].codePointAt(0)! - target[i].codePointAt(0)!);
+      score += Math.max(0, 1 - distance / CLOSENESS_RANGE);
+    }
+    return Math.max(0, score - lengthPenalty(dna, target));
+  },
+  maxFitness: targetLength,
+};
+
+const longestCommonSubstringFitness: FitnessFunction = {
+  evaluate(dna, target) {
+    const penalty = lengthPenalty(splitCodePoints(dna), splitCodePoints(target));
+    return Math.max(0, longestCommonSubstring(dna, target) - penalty);
+  },
+  maxFitness: targetLength,
+};
+
+export function getFitnessFunction(strategy: Exclude<FitnessStrategy, 'custom'>): FitnessFunction {
+  switch (strategy) {
+    case 'positional':
+      return positional;
+    case 'case-insensitive':
+      return caseInsensitive;
+    case 'levenshtein':
+      return levenshtein;
+    case 'character-closeness':
+      return characterCloseness;
+    case 'longest-common-substring':
+      return longestCommonSubstringFitness;
+  }
+}
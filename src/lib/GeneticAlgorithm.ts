@@ -1,9 +1,101 @@
-export type CharacterSet = 'letters-space' | 'alphanumeric-space' | 'printable-ascii';
-export type SelectionStrategy = 'elitism' | 'semi-elitism' | 'random';
+import { createMulberry32, generateSeed } from './Random';
+import type { RandomNumberGenerator, RandomNumberGeneratorFactory } from './Random';
+import { getFitnessFunction } from './FitnessFunctions';
+import type { FitnessFunction, FitnessStrategy } from './FitnessFunctions';
+import { getCharacterPool, splitCodePoints } from './CharacterSets';
+import type { CharacterSet } from './CharacterSets';
+import { EventEmitter } from './EventEmitter';
+import type { Unsubscribe } from './EventEmitter';
+import {
+  describeFitness,
+  hammingDistance,
+  meanHammingDistance,
+  meanLocusEntropy,
+} from './PopulationMetrics';
+import type { FitnessDistribution } from './PopulationMetrics';
+import { sharedFitness } from './Niching';
+import type { NichingStrategy } from './Niching';
+import {
+  createEnvironment,
+  describeEnvironment,
+  recordChange,
+  recordProgress,
+} from './Environment';
+import type {
+  EnvironmentState,
+  EnvironmentStats,
+  TargetChangeTrigger,
+  TargetMode,
+} from './Environment';
+import {
+  countVowels,
+  dominates,
+  nonDominatedSort,
+  orientObjectives,
+  rankByCrowding,
+} from './MultiObjective';
+import type { ObjectivePair, SecondObjective } from './MultiObjective';
+
+export type { CharacterSet } from './CharacterSets';
+export type { FitnessDistribution } from './PopulationMetrics';
+export type { NichingStrategy } from './Niching';
+export type {
+  EnvironmentState,
+  EnvironmentStats,
+  TargetChangeTrigger,
+  TargetMode,
+} from './Environment';
+export type { SecondObjective } from './MultiObjective';
+export type SelectionStrategy =
+  'elitism' | 'semi-elitism' | 'random' | 'tournament' | 'roulette' | 'rank' | 'boltzmann';
+export type CrossoverStrategy = 'single-point' | 'two-point' | 'k-point' | 'uniform' | 'clone';
+export type StagnationResponse = 'none' | 'immigrants' | 'restart';
+export type MigrationTopology = 'ring' | 'fully-connected' | 'random';
+
+// Highest rating a person can give a string in interactive mode; unrated strings score 0
+export const MAX_RATING = 5;
+
+export interface Rating {
+  dna: string;
+  rating: number; // 1 to MAX_RATING
+}
 
 export interface Individual {
   dna: string;
   fitness: number;
+  lineage?: Lineage; // only present when trackLineage is on
+  island?: number; // only present in island mode
+  objectives?: number[]; // [fitness, second objective], only present in multi-objective mode
+  paretoFront?: number; // 0 for non-dominated strings, only present in multi-objective mode
+}
+
+// Ancestry metadata. Gene positions are code point indexes into the individual's own DNA.
+export interface Lineage {
+  id: number;
+  parentIds: number[]; // empty for randomly generated individuals
+  birthGeneration: number;
+  crossoverPoints: number[]; // cut positions used; empty for uniform crossover or clones
+  origins: number[]; // per gene: index into parentIds of the parent that supplied it, -1 if inserted
+  mutatedLoci: number[]; // genes changed or inserted by mutation
+}
+
+// A child's genes before mutation; origins[i] is 0 or 1 for the first or second parent
+interface Offspring {
+  genes: string[];
+  origins: number[];
+  crossoverPoints: number[];
+}
+
+interface MutatedOffspring {
+  dna: string;
+  origins: number[];
+  mutatedLoci: number[];
+}
+
+// Per-island overrides in island mode; anything left out follows the main configuration
+export interface IslandSettings {
+  selectionStrategy?: SelectionStrategy;
+  mutationRate?: number; // probability 0-1
 }
 
 export interface GeneticAlgorithmConfig {
@@ -13,61 +105,394 @@ export interface GeneticAlgorithmConfig {
   mutationEnabled: boolean;
   mutationRate?: number; // probability 0-1
   characterSet: CharacterSet;
+  customCharacters?: string; // allowed alphabet when characterSet is 'custom'
   selectionStrategy: SelectionStrategy;
+  eliteCount?: number; // best individuals copied unchanged into the next generation
+  tournamentSize?: number; // k for tournament selection
+  boltzmannTemperature?: number; // in fitness units; lower = stronger selection pressure
+  crossoverStrategy?: CrossoverStrategy; // defaults to 'single-point'
+  crossoverRate?: number; // probability 0-1 that parents recombine instead of being copied
+  crossoverPoints?: number; // number of cut points for 'k-point'
+  uniformSwapRate?: number; // per-gene swap probability 0-1 for 'uniform'
+  variableLength?: boolean; // random initial lengths plus insertion/deletion mutations
+  minLength?: number; // initial length range when variableLength is on
+  maxLength?: number;
+  insertionRate?: number; // per-position probability 0-1 of inserting a character
+  deletionRate?: number; // per-position probability 0-1 of deleting a character
+  stagnationThreshold?: number; // generations without improvement before the run counts as stagnant
+  mutationDecay?: boolean; // scale the mutation rate down as best fitness approaches the maximum
+  hypermutation?: boolean; // temporarily multiply the mutation rate whenever stagnation is reached
+  hypermutationMultiplier?: number;
+  hypermutationDuration?: number; // generations each burst lasts
+  stagnationResponse?: StagnationResponse; // inject random immigrants or partially restart on stagnation
+  stagnationReplacementRate?: number; // fraction 0-1 of the worst individuals replaced by random ones
+  seed?: number; // same seed + same config = same run; random when omitted
+  fitnessStrategy?: FitnessStrategy; // defaults to 'positional'
+  customFitness?: FitnessFunction; // required when fitnessStrategy is 'custom'
+  trackLineage?: boolean; // give every individual an id, parents and per-gene origins
+  islandCount?: number; // sub-populations evolving separately; 1 keeps a single population
+  islandSettings?: IslandSettings[]; // indexed by island
+  migrationInterval?: number; // generations between migrations
+  migrationTopology?: MigrationTopology;
+  migrantCount?: number; // best individuals each island sends along every link
+  niching?: NichingStrategy; // 'crowding' replaces the selection strategy; defaults to 'none'
+  sharingRadius?: number; // Hamming distance in characters within which fitness is shared
+  eliminateDuplicates?: boolean; // replace repeated strings in each new generation with random ones
+  targetMode?: TargetMode; // 'cycle' and 'drift' move the target during the run; defaults to 'single'
+  targets?: string[]; // phrases after target, matched all at once ('multi') or in turn ('cycle')
+  targetChange?: TargetChangeTrigger; // when a moving target changes; defaults to 'interval'
+  targetChangeInterval?: number; // generations between changes with the 'interval' trigger
+  driftEdits?: number; // characters replaced at random each time a drifting target changes
+  interactive?: boolean; // a person scores the strings through rate() instead of a target
+  stringLength?: number; // length of the random strings in interactive mode, which has no target
+  secondObjective?: SecondObjective; // optimised alongside the target with NSGA-II ranking
+  secondTarget?: string; // the phrase scored by the 'second-target' objective
+}
+
+export interface IslandStats {
+  size: number;
+  bestFitness: number;
+  averageFitness: number;
 }
 
 export interface GenerationStats {
   generation: number;
   bestIndividual: Individual;
   averageFitness: number;
-  diversity: number;
+  maxFitness: number;
+  diversity: number; // percentage of distinct strings
+  hammingDistance: number; // mean pairwise distance in characters, sampled in large populations
+  locusEntropy: number; // mean Shannon entropy in bits over the target's positions
+  fitnessDistribution: FitnessDistribution;
   isComplete: boolean;
   isStagnant: boolean;
   generationsSinceImprovement: number;
+  mutationRate: number; // effective rate used to breed this generation
+  islands?: IslandStats[]; // one entry per island, only present in island mode
+  environment?: EnvironmentStats; // only present while the target moves
+  paretoFrontSize?: number; // distinct non-dominated strings, only present in multi-objective mode
+}
+
+// Events emitted by step(); listeners receive live objects and must not modify them
+export type GeneticAlgorithmEvents = {
+  // Population sorted best first, before parents are chosen for the next generation. In
+  // multi-objective mode best first means by Pareto front, then by crowding distance.
+  beforeSelection: [population: readonly Individual[], generation: number];
+  // Newly bred children (carried-over survivors excluded), before duplicate elimination and any
+  // stagnation response
+  afterMutation: [offspring: readonly Individual[], generation: number];
+  generation: [stats: GenerationStats];
+  newBest: [best: Individual, stats: GenerationStats];
+  // Each time another full stagnation threshold passes without improvement
+  stagnation: [stats: GenerationStats];
+  // The generation in which the target is first reached
+  complete: [stats: GenerationStats];
+};
+
+// Everything needed to resume a run exactly where it stopped. Functions cannot be serialized,
+// so a custom fitness function has to be passed to fromState again.
+export interface GeneticAlgorithmState {
+  config: Omit<GeneticAlgorithmConfig, 'customFitness'>;
+  generation: number;
+  population: Individual[];
+  bestFitnessHistory: number[];
+  generationsSinceImprovement: number;
+  hypermutationRemaining: number;
+  currentMutationRate: number;
+  rngState: number;
+  nextIndividualId: number;
+  environment?: EnvironmentState; // absent in snapshots saved before moving targets
 }
 
 export class GeneticAlgorithm {
+  // With mutationDecay, the rate never drops below this fraction of the configured rate
+  private static readonly MIN_DECAY_FACTOR = 0.1;
+
   private config: GeneticAlgorithmConfig;
   private population: Individual[] = [];
   private generation: number = 0;
-  private characterPool: string = '';
+  private characterPool: string[] = [];
+  private fitnessFunction!: FitnessFunction;
   private bestFitnessHistory: number[] = [];
   private generationsSinceImprovement: number = 0;
-  private readonly stagnationThreshold: number = 50;
+  private hypermutationRemaining: number = 0;
+  private currentMutationRate: number = 0;
+  private nextIndividualId: number = 0;
+  // Scores that replace fitness during selection: shared fitness while sharing is on, the
+  // position in the crowded-comparison order in multi-objective mode
+  private selectionScores: Map<Individual, number> | null = null;
+  private environment: EnvironmentState;
+  // Multi-target mode: each target's score is multiplied by its entry so all share one maximum
+  private targetScales: number[] = [];
+  private readonly createRng: RandomNumberGeneratorFactory;
+  private rng: RandomNumberGenerator;
+  private readonly events = new EventEmitter<GeneticAlgorithmEvents>();
 
-  constructor(config: GeneticAlgorithmConfig) {
+  constructor(
+    config: GeneticAlgorithmConfig,
+    createRng: RandomNumberGeneratorFactory = createMulberry32,
+  ) {
     this.config = {
       ...config,
       mutationRate: config.mutationRate ?? 0.01,
+      eliteCount: config.eliteCount ?? 0,
+      tournamentSize: config.tournamentSize ?? 3,
+      boltzmannTemperature: config.boltzmannTemperature ?? 1,
+      crossoverStrategy: config.crossoverStrategy ?? 'single-point',
+      crossoverRate: config.crossoverRate ?? 1,
+      crossoverPoints: config.crossoverPoints ?? 3,
+      uniformSwapRate: config.uniformSwapRate ?? 0.5,
+      stagnationThreshold: config.stagnationThreshold ?? 50,
+      mutationDecay: config.mutationDecay ?? false,
+      hypermutation: config.hypermutation ?? false,
+      hypermutationMultiplier: config.hypermutationMultiplier ?? 10,
+      hypermutationDuration: config.hypermutationDuration ?? 5,
+      stagnationResponse: config.stagnationResponse ?? 'none',
+      stagnationReplacementRate: config.stagnationReplacementRate ?? 0.2,
+      variableLength: config.variableLength ?? false,
+      minLength: config.minLength ?? 1,
+      maxLength: config.maxLength ?? splitCodePoints(config.target).length * 2,
+      insertionRate: config.insertionRate ?? 0.005,
+      deletionRate: config.deletionRate ?? 0.005,
+      seed: config.seed ?? generateSeed(),
+      fitnessStrategy: config.fitnessStrategy ?? 'positional',
+      trackLineage: config.trackLineage ?? false,
+      islandCount: config.islandCount ?? 1,
+      migrationInterval: config.migrationInterval ?? 10,
+      migrationTopology: config.migrationTopology ?? 'ring',
+      migrantCount: config.migrantCount ?? 2,
+      niching: config.niching ?? 'none',
+      sharingRadius: config.sharingRadius ?? 3,
+      eliminateDuplicates: config.eliminateDuplicates ?? false,
+      targetMode: config.targetMode ?? 'single',
+      targets: config.targets ?? [],
+      targetChange: config.targetChange ?? 'interval',
+      targetChangeInterval: config.targetChangeInterval ?? 100,
+      driftEdits: config.driftEdits ?? 1,
+      interactive: config.interactive ?? false,
+      stringLength: config.stringLength ?? splitCodePoints(config.target).length,
+      secondObjective: config.secondObjective ?? 'none',
+      secondTarget: config.secondTarget ?? '',
     };
+    this.createRng = createRng;
+    this.rng = this.createRng(this.config.seed!);
+    this.environment = createEnvironment(this.config.target);
     this.setCharacterPool();
+    this.setFitnessFunction();
+    this.validateInteractive();
+    this.validateIslands();
+    this.validateTargets();
+    this.validateObjectives();
+  }
+
+  private validateInteractive(): void {
+    if (!this.isInteractive()) return;
+
+    if (this.config.stringLength! < 1) {
+      throw new Error('Interactive mode needs a string length of at least 1');
+    }
+    if (
+      this.isIslandModel() ||
+      this.config.niching !== 'none' ||
+      this.isMultiObjective() ||
+      this.config.targetMode !== 'single'
+    ) {
+      throw new Error(
+        'Interactive mode cannot be combined with islands, niching, a second objective or other target modes',
+      );
+    }
+  }
+
+  private isInteractive(): boolean {
+    return this.config.interactive!;
+  }
+
+  private validateObjectives(): void {
+    if (this.config.secondObjective !== 'second-target') return;
+
+    const secondTarget = this.config.secondTarget!;
+    if (!secondTarget) {
+      throw new Error("secondObjective 'second-target' requires a secondTarget");
+    }
+    if (
+      !this.config.variableLength &&
+      splitCodePoints(secondTarget).length !== splitCodePoints(this.config.target).length
+    ) {
+      throw new Error(
+        'Without variable-length strings the second target must be as long as the first',
+      );
+    }
+  }
+
+  private isMultiObjective(): boolean {
+    return this.config.secondObjective !== 'none';
+  }
+
+  private validateTargets(): void {
+    const mode = this.config.targetMode;
+    if ((mode === 'multi' || mode === 'cycle') && this.getTargets().length < 2) {
+      throw new Error('Multi-target and cycling modes need at least two targets');
+    }
+    const length = splitCodePoints(this.config.target).length;
+    if (
+      !this.config.variableLength &&
+      this.getTargets().some((target) => splitCodePoints(target).length !== length)
+    ) {
+      throw new Error('Without variable-length strings every target must be as long as the first');
+    }
+  }
+
+  // Every phrase the run can be scored against, starting with the configured target
+  private getTargets(): string[] {
+    const mode = this.config.targetMode;
+    return mode === 'multi' || mode === 'cycle'
+      ? [this.config.target, ...this.config.targets!]
+      : [this.config.target];
+  }
+
+  private isMovingTarget(): boolean {
+    return this.config.targetMode === 'cycle' || this.config.targetMode === 'drift';
+  }
+
+  private validateIslands(): void {
+    if (this.isIslandModel() && this.config.populationSize < this.config.islandCount! * 2) {
+      throw new Error('Island mode needs a population of at least 2 per island');
+    }
+  }
+
+  private isIslandModel(): boolean {
+    return this.config.islandCount! > 1;
+  }
+
+  // The population is split as evenly as possible; earlier islands take any remainder
+  private getIslandSizes(): number[] {
+    const count = this.config.islandCount!;
+    const base = Math.floor(this.config.populationSize / count);
+    const remainder = this.config.populationSize % count;
+    return Array.from({ length: count }, (_, island) => base + (island < remainder ? 1 : 0));
+  }
+
+  private setFitnessFunction(): void {
+    if (this.config.fitnessStrategy === 'custom') {
+      if (!this.config.customFitness) {
+        throw new Error("fitnessStrategy 'custom' requires a customFitness function");
+      }
+      this.fitnessFunction = this.config.customFitness;
+    } else {
+      this.fitnessFunction = getFitnessFunction(this.config.fitnessStrategy!);
+    }
+    this.setTargetScales();
+  }
+
+  private setTargetScales(): void {
+    const maxima = this.getTargets().map((target) => this.fitnessFunction.maxFitness(target));
+    const largest = Math.max(...maxima);
+    this.targetScales = maxima.map((max) => (max === largest ? 1 : largest / max));
   }
 
   private setCharacterPool(): void {
-    switch (this.config.characterSet) {
-      case 'letters-space':
-        this.characterPool = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz ';
-        break;
-      case 'alphanumeric-space':
-        this.characterPool = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789 ';
-        break;
-      case 'printable-ascii':
-        // Printable ASCII characters (space to ~)
-        this.characterPool = '';
-        for (let i = 32; i <= 126; i++) {
-          this.characterPool += String.fromCharCode(i);
-        }
-        break;
+    const pool = getCharacterPool(this.config.characterSet, this.config.customCharacters);
+    // Fewer than two characters leaves nothing to draw or nothing to mutate into
+    if (pool.length < 2) {
+      throw new Error('Character set must contain at least 2 distinct characters');
     }
+    this.characterPool = pool;
+  }
+
+  public getPopulation(): readonly Individual[] {
+    return this.population;
+  }
+
+  public onGeneration(listener: (stats: GenerationStats) => void): Unsubscribe {
+    return this.events.on('generation', listener);
+  }
+
+  public onNewBest(listener: (best: Individual, stats: GenerationStats) => void): Unsubscribe {
+    return this.events.on('newBest', listener);
+  }
+
+  public onStagnation(listener: (stats: GenerationStats) => void): Unsubscribe {
+    return this.events.on('stagnation', listener);
   }
 
-  public getCharacterPool(): string {
-    return this.characterPool;
+  public onComplete(listener: (stats: GenerationStats) => void): Unsubscribe {
+    return this.events.on('complete', listener);
+  }
+
+  public beforeSelection(
+    listener: (population: readonly Individual[], generation: number) => void,
+  ): Unsubscribe {
+    return this.events.on('beforeSelection', listener);
+  }
+
+  public afterMutation(
+    listener: (offspring: readonly Individual[], generation: number) => void,
+  ): Unsubscribe {
+    return this.events.on('afterMutation', listener);
+  }
+
+  // One entry per code point, so emoji and other astral characters are single genes
+  public getCharacterPool(): string[] {
+    return [...this.characterPool];
+  }
+
+  // Throws when a target uses characters the pool cannot produce, as the run could never reach
+  // it. Not checked on construction, so callers decide whether such a run is worth starting.
+  public validateTargetCharacters(): void {
+    if (this.isInteractive()) return;
+
+    const targets = this.getTargets();
+    if (this.config.secondObjective === 'second-target') {
+      targets.push(this.config.secondTarget!);
+    }
+    const invalidChars = [...new Set(splitCodePoints(targets.join('')))].filter(
+      (char) => !this.characterPool.includes(char),
+    );
+    if (invalidChars.length > 0) {
+      const charList = invalidChars.map((c) => `'${c}'`).join(', ');
+      throw new Error(
+        `Target string contains characters not in selected character set: ${charList}`,
+      );
+    }
+  }
+
+  public getConfig(): GeneticAlgorithmConfig {
+    return { ...this.config };
+  }
+
+  // In multi-target mode every target is scaled to the largest maximum, so matching any one of
+  // them perfectly completes the run. In interactive mode fitness is a rating.
+  public getMaxFitness(): number {
+    if (this.isInteractive()) {
+      return MAX_RATING;
+    }
+    if (this.config.targetMode === 'multi') {
+      return Math.max(
+        ...this.getTargets().map((target) => this.fitnessFunction.maxFitness(target)),
+      );
+    }
+    return this.fitnessFunction.maxFitness(this.environment.target);
+  }
+
+  // The target currently scored against; it changes during the run when the target moves
+  public getTarget(): string {
+    return this.environment.target;
+  }
+
+  public getSeed(): number {
+    return this.config.seed!;
+  }
+
+  private random(): number {
+    return this.rng.next();
+  }
+
+  private randomInt(max: number): number {
+    return Math.floor(this.random() * max);
   }
 
   private getRandomCharacter(): string {
-    const index = Math.floor(Math.random() * this.characterPool.length);
-    return this.characterPool[index];
+    return this.characterPool[this.randomInt(this.characterPool.length)];
   }
 
   private generateRandomString(length: number): string {
@@ -79,65 +504,465 @@ export class GeneticAlgorithm {
   }
 
   private calculateFitness(dna: string): number {
-    let score = 0;
-    for (let i = 0; i < dna.length; i++) {
-      if (dna[i] === this.config.target[i]) {
-        score++;
-      }
+    if (this.isInteractive()) {
+      // Nobody has rated a new string yet
+      return 0;
+    }
+    if (this.config.targetMode === 'multi') {
+      // The best match against any target
+      return this.getTargets().reduce(
+        (best, target, index) =>
+          Math.max(best, this.fitnessFunction.evaluate(dna, target) * this.targetScales[index]),
+        -Infinity,
+      );
+    }
+    return this.fitnessFunction.evaluate(dna, this.environment.target);
+  }
+
+  // The target score followed by the second objective, each in its own units
+  private calculateObjectives(dna: string, fitness: number): number[] {
+    const second =
+      this.config.secondObjective === 'few-vowels'
+        ? countVowels(dna)
+        : this.fitnessFunction.evaluate(dna, this.config.secondTarget!);
+    return [fitness, second];
+  }
+
+  // Individuals from before multi-objective mode was switched on are scored on demand
+  private getObjectivePair(individual: Individual): ObjectivePair {
+    const objectives =
+      individual.objectives ?? this.calculateObjectives(individual.dna, individual.fitness);
+    return orientObjectives(objectives, this.config.secondObjective!);
+  }
+
+  // Scores an individual and, in multi-objective mode, its second objective
+  private score(individual: Individual): Individual {
+    individual.fitness = this.calculateFitness(individual.dna);
+    if (this.isMultiObjective()) {
+      individual.objectives = this.calculateObjectives(individual.dna, individual.fitness);
+    }
+    return individual;
+  }
+
+  public getState(): GeneticAlgorithmState {
+    const { customFitness: _customFitness, ...config } = this.config;
+    return {
+      config,
+      generation: this.generation,
+      population: this.population.map((individual) => ({ ...individual })),
+      bestFitnessHistory: [...this.bestFitnessHistory],
+      generationsSinceImprovement: this.generationsSinceImprovement,
+      hypermutationRemaining: this.hypermutationRemaining,
+      currentMutationRate: this.currentMutationRate,
+      rngState: this.rng.getState(),
+      nextIndividualId: this.nextIndividualId,
+      environment: { ...this.environment },
+    };
+  }
+
+  static fromState(
+    state: GeneticAlgorithmState,
+    createRng: RandomNumberGeneratorFactory = createMulberry32,
+    customFitness?: FitnessFunction, // required when the saved fitnessStrategy is 'custom'
+  ): GeneticAlgorithm {
+    const ga = new GeneticAlgorithm({ ...state.config, customFitness }, createRng);
+    ga.population = state.population.map((individual) => ({ ...individual }));
+    ga.generation = state.generation;
+    ga.bestFitnessHistory = [...state.bestFitnessHistory];
+    ga.generationsSinceImprovement = state.generationsSinceImprovement;
+    ga.hypermutationRemaining = state.hypermutationRemaining;
+    ga.currentMutationRate = state.currentMutationRate;
+    ga.rng.setState(state.rngState);
+    ga.nextIndividualId = state.nextIndividualId;
+    if (state.environment) {
+      ga.environment = { ...state.environment };
     }
-    return score;
+    // States saved before fronts were stored on individuals lack them
+    if (ga.isMultiObjective()) {
+      ga.population = ga.withParetoFronts(ga.population);
+    }
+    return ga;
   }
 
   initialize(): void {
+    // Restart the RNG so every initialize() replays the same run for a given seed
+    this.rng = this.createRng(this.config.seed!);
     this.population = [];
     this.generation = 0;
     this.bestFitnessHistory = [];
     this.generationsSinceImprovement = 0;
-    const targetLength = this.config.target.length;
+    this.hypermutationRemaining = 0;
+    this.nextIndividualId = 0;
+    this.environment = createEnvironment(this.config.target);
 
     for (let i = 0; i < this.config.populationSize; i++) {
-      const dna = this.generateRandomString(targetLength);
-      this.population.push({
-        dna,
-        fitness: this.calculateFitness(dna),
+      this.population.push(this.createRandomIndividual(0));
+    }
+    if (this.isIslandModel()) {
+      let index = 0;
+      this.getIslandSizes().forEach((size, island) => {
+        for (let i = 0; i < size; i++) {
+          this.population[index++].island = island;
+        }
       });
     }
+    if (this.isMultiObjective()) {
+      this.population = this.withParetoFronts(this.population);
+    }
+    this.currentMutationRate = this.getEffectiveMutationRate();
+  }
+
+  private createRandomIndividual(birthGeneration: number): Individual {
+    const length = this.config.variableLength ? this.getRandomLength() : this.getStringLength();
+    const dna = this.generateRandomString(length);
+    const individual = this.score({ dna, fitness: 0 });
+    if (this.config.trackLineage) {
+      individual.lineage = {
+        id: this.nextIndividualId++,
+        parentIds: [],
+        birthGeneration,
+        crossoverPoints: [],
+        origins: [],
+        mutatedLoci: [],
+      };
+    }
+    return individual;
+  }
+
+  private createChild(
+    child: MutatedOffspring,
+    crossoverPoints: number[],
+    parents: [Individual, Individual],
+  ): Individual {
+    const individual = this.score({ dna: child.dna, fitness: 0 });
+    if (this.config.trackLineage) {
+      individual.lineage = {
+        id: this.nextIndividualId++,
+        // Parents from before lineage tracking was switched on have no id
+        parentIds: parents.map((parent) => parent.lineage?.id ?? -1),
+        birthGeneration: this.generation + 1,
+        crossoverPoints,
+        origins: child.origins,
+        mutatedLoci: child.mutatedLoci,
+      };
+    }
+    return individual;
+  }
+
+  // Interactive mode has no target to take the length from
+  private getStringLength(): number {
+    return this.isInteractive()
+      ? this.config.stringLength!
+      : splitCodePoints(this.environment.target).length;
+  }
+
+  // Interactive mode: replaces every rating with the given ones, so strings left out become
+  // unrated. Copies of a string share its rating.
+  public rate(ratings: readonly Rating[]): void {
+    if (!this.isInteractive()) {
+      throw new Error('Strings can only be rated in interactive mode');
+    }
+
+    const byDna = new Map(ratings.map(({ dna, rating }) => [dna, rating]));
+    for (const individual of this.population) {
+      const rating = byDna.get(individual.dna) ?? 0;
+      individual.fitness = Math.min(MAX_RATING, Math.max(0, rating));
+    }
+  }
+
+  private getRandomLength(): number {
+    const min = Math.max(1, this.config.minLength!);
+    const max = Math.max(min, this.config.maxLength!);
+    return min + this.randomInt(max - min + 1);
+  }
+
+  // The score selection compares: a selection score when one is set, the raw score otherwise
+  private getSelectionFitness(individual: Individual): number {
+    return this.selectionScores?.get(individual) ?? individual.fitness;
   }
 
   private selectParent(pool: Individual[]): Individual {
-    const index = Math.floor(Math.random() * pool.length);
-    return pool[index];
+    return pool[this.randomInt(pool.length)];
+  }
+
+  private selectRandomFromPopulation(population: Individual[]): Individual {
+    return population[this.randomInt(population.length)];
+  }
+
+  private selectByTournament(population: Individual[]): Individual {
+    let best = this.selectRandomFromPopulation(population);
+    for (let i = 1; i < this.config.tournamentSize!; i++) {
+      const contender = this.selectRandomFromPopulation(population);
+      if (this.getSelectionFitness(contender) > this.getSelectionFitness(best)) {
+        best = contender;
+      }
+    }
+    return best;
+  }
+
+  // Cumulative selection weights for the fitness-proportionate strategies.
+  // Expects the population to be sorted by selection fitness (descending).
+  private buildSelectionWheel(
+    population: Individual[],
+    strategy: SelectionStrategy,
+  ): number[] | null {
+    let weights: number[];
+
+    switch (strategy) {
+      case 'roulette':
+        weights = population.map((ind) => Math.max(0, this.getSelectionFitness(ind)));
+        break;
+
+      case 'rank':
+        // Linear ranking: best gets N, worst gets 1
+        weights = population.map((_, index) => population.length - index);
+        break;
+
+      case 'boltzmann': {
+        // Shift by the best fitness so exp() never overflows
+        const scores = population.map((ind) => this.getSelectionFitness(ind));
+        const best = scores.reduce((max, score) => Math.max(max, score), -Infinity);
+        const temperature = Math.max(this.config.boltzmannTemperature!, Number.EPSILON);
+        weights = scores.map((score) => Math.exp((score - best) / temperature));
+        break;
+      }
+
+      default:
+        return null;
+    }
+
+    const wheel: number[] = [];
+    let total = 0;
+    for (const weight of weights) {
+      total += weight;
+      wheel.push(total);
+    }
+    return wheel;
+  }
+
+  private selectFromWheel(population: Individual[], wheel: number[]): Individual {
+    const total = wheel[wheel.length - 1];
+
+    // All weights zero (e.g. roulette on an all-zero population): fall back to uniform
+    if (total <= 0) {
+      return this.selectRandomFromPopulation(population);
+    }
+
+    // Binary search for the first slot whose cumulative weight exceeds the spin
+    const spin = this.random() * total;
+    let low = 0;
+    let high = wheel.length - 1;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (wheel[mid] > spin) {
+        high = mid;
+      } else {
+        low = mid + 1;
+      }
+    }
+    return population[low];
   }
 
-  private selectRandomFromPopulation(): Individual {
-    const index = Math.floor(Math.random() * this.population.length);
-    return this.population[index];
+  private crossover(parent1: Individual, parent2: Individual): [Offspring, Offspring] {
+    const genes1 = splitCodePoints(parent1.dna);
+    const genes2 = splitCodePoints(parent2.dna);
+    const clone: [Offspring, Offspring] = [
+      { genes: genes1, origins: genes1.map(() => 0), crossoverPoints: [] },
+      { genes: genes2, origins: genes2.map(() => 1), crossoverPoints: [] },
+    ];
+
+    // Some pairs skip recombination and pass their DNA on unchanged
+    if (this.config.crossoverRate! < 1 && this.random() >= this.config.crossoverRate!) {
+      return clone;
+    }
+
+    switch (this.config.crossoverStrategy) {
+      case 'single-point':
+        return this.pointCrossover(genes1, genes2, 1);
+      case 'two-point':
+        return this.pointCrossover(genes1, genes2, 2);
+      case 'k-point':
+        return this.pointCrossover(genes1, genes2, this.config.crossoverPoints!);
+      case 'uniform':
+        return this.uniformCrossover(genes1, genes2);
+      default:
+        // 'clone': mutation-only evolution
+        return clone;
+    }
   }
 
-  private crossover(parent1: Individual, parent2: Individual): [string, string] {
-    const length = parent1.dna.length;
-    const splitPoint = Math.floor(Math.random() * (length - 1)) + 1;
+  private pointCrossover(
+    genes1: string[],
+    genes2: string[],
+    pointCount: number,
+  ): [Offspring, Offspring] {
+    // Cut points must fall inside both parents; with variable lengths the tails swap wholesale
+    const length = Math.min(genes1.length, genes2.length);
+    let cuts: number[];
+    if (length < 2) {
+      cuts = [];
+    } else if (pointCount === 1) {
+      cuts = [this.randomInt(length - 1) + 1];
+    } else {
+      // Pick distinct cut points between 1 and length - 1, then alternate segments
+      const points = new Set<number>();
+      const count = Math.min(pointCount, length - 1);
+      while (points.size < count) {
+        points.add(this.randomInt(length - 1) + 1);
+      }
+      cuts = [...points].sort((a, b) => a - b);
+    }
 
-    const child1 = parent1.dna.slice(0, splitPoint) + parent2.dna.slice(splitPoint);
-    const child2 = parent2.dna.slice(0, splitPoint) + parent1.dna.slice(splitPoint);
+    const parents = [genes1, genes2];
+    const build = (first: number): Offspring => {
+      const child: Offspring = { genes: [], origins: [], crossoverPoints: cuts };
+      const bounds = [0, ...cuts];
+      for (let i = 0; i < bounds.length; i++) {
+        const source = i % 2 === 0 ? first : 1 - first;
+        // The last segment runs to the end of each parent
+        const end = i + 1 < bounds.length ? bounds[i + 1] : undefined;
+        const segment = parents[source].slice(bounds[i], end);
+        child.genes.push(...segment);
+        child.origins.push(...segment.map(() => source));
+      }
+      return child;
+    };
+
+    return [build(0), build(1)];
+  }
 
+  private uniformCrossover(genes1: string[], genes2: string[]): [Offspring, Offspring] {
+    const length = Math.min(genes1.length, genes2.length);
+    const child1: Offspring = { genes: [], origins: [], crossoverPoints: [] };
+    const child2: Offspring = { genes: [], origins: [], crossoverPoints: [] };
+    for (let i = 0; i < length; i++) {
+      const swap = this.random() < this.config.uniformSwapRate!;
+      child1.genes.push(swap ? genes2[i] : genes1[i]);
+      child1.origins.push(swap ? 1 : 0);
+      child2.genes.push(swap ? genes1[i] : genes2[i]);
+      child2.origins.push(swap ? 0 : 1);
+    }
+    // Positions only the longer parent has stay with its own child
+    for (let i = length; i < genes1.length; i++) {
+      child1.genes.push(genes1[i]);
+      child1.origins.push(0);
+    }
+    for (let i = length; i < genes2.length; i++) {
+      child2.genes.push(genes2[i]);
+      child2.origins.push(1);
+    }
     return [child1, child2];
   }
 
-  private mutate(dna: string): string {
+  private mutate(child: Offspring, mutationRate: number): MutatedOffspring {
     if (!this.config.mutationEnabled) {
-      return dna;
+      return { dna: child.genes.join(''), origins: child.origins, mutatedLoci: [] };
     }
 
-    let mutated = '';
-    for (let i = 0; i < dna.length; i++) {
-      if (Math.random() < this.config.mutationRate!) {
-        mutated += this.getRandomCharacter();
+    const indels = this.config.variableLength!;
+    const { genes } = child;
+    const mutated: string[] = [];
+    const origins: number[] = [];
+    const mutatedLoci: number[] = [];
+    for (let i = 0; i < genes.length; i++) {
+      if (indels && this.random() < this.config.insertionRate!) {
+        mutatedLoci.push(mutated.length);
+        mutated.push(this.getRandomCharacter());
+        origins.push(-1);
+      }
+
+      // Delete this character, unless that would leave an empty string
+      const canDelete = mutated.length > 0 || i < genes.length - 1;
+      if (indels && this.random() < this.config.deletionRate! && canDelete) {
+        continue;
+      }
+
+      if (this.random() < mutationRate) {
+        mutatedLoci.push(mutated.length);
+        mutated.push(this.getRandomCharacter());
       } else {
-        mutated += dna[i];
+        mutated.push(genes[i]);
       }
+      origins.push(child.origins[i]);
+    }
+    return { dna: mutated.join(''), origins, mutatedLoci };
+  }
+
+  // Decay and hypermutation scale an island's own base rate the same way as the main one
+  private getEffectiveMutationRate(baseRate: number = this.config.mutationRate!): number {
+    if (!this.config.mutationEnabled) {
+      return 0;
+    }
+
+    let rate = baseRate;
+
+    if (this.config.mutationDecay && this.population.length > 0) {
+      // Linear decay from the full rate down to MIN_DECAY_FACTOR of it at a perfect score
+      const best = this.population.reduce((max, ind) => Math.max(max, ind.fitness), 0);
+      const progress = Math.min(1, Math.max(0, best / this.getMaxFitness()));
+      rate *= 1 - progress * (1 - GeneticAlgorithm.MIN_DECAY_FACTOR);
+    }
+
+    if (this.hypermutationRemaining > 0) {
+      rate *= this.config.hypermutationMultiplier!;
+    }
+
+    return Math.min(1, rate);
+  }
+
+  // Replaces the worst individuals with random newcomers to reintroduce lost genetic material
+  private replaceWorstWithRandom(population: Individual[]): void {
+    const count = Math.floor(population.length * this.config.stagnationReplacementRate!);
+    if (count === 0) return;
+
+    population.sort((a, b) => b.fitness - a.fitness);
+    for (let i = population.length - count; i < population.length; i++) {
+      this.replaceWithRandom(population, i);
+    }
+  }
+
+  private replaceWithRandom(population: Individual[], index: number): void {
+    const island = population[index].island;
+    population[index] = this.createRandomIndividual(this.generation + 1);
+    // Newcomers take the replaced individual's place on its island
+    if (island !== undefined) {
+      population[index].island = island;
+    }
+  }
+
+  // Keeps the first copy of every string (per island) and replaces later copies with random
+  // newcomers. Carried-over survivors come first, so they are never the ones replaced.
+  private replaceDuplicates(population: Individual[]): void {
+    const seen = new Set<string>();
+    const keyOf = (individual: Individual) =>
+      individual.island === undefined ? individual.dna : `${individual.island}:${individual.dna}`;
+
+    for (let i = 0; i < population.length; i++) {
+      if (seen.has(keyOf(population[i]))) {
+        this.replaceWithRandom(population, i);
+      }
+      seen.add(keyOf(population[i]));
+    }
+  }
+
+  private applyStagnationResponse(population: Individual[]): void {
+    const stagnantFor = this.generationsSinceImprovement;
+    const threshold = this.config.stagnationThreshold!;
+    if (stagnantFor < threshold) return;
+
+    switch (this.config.stagnationResponse) {
+      case 'immigrants':
+        // A steady trickle of newcomers for as long as the run stays stagnant
+        this.replaceWorstWithRandom(population);
+        break;
+
+      case 'restart':
+        // One large replacement each time another full threshold passes without improvement
+        if (stagnantFor % threshold === 0) {
+          this.replaceWorstWithRandom(population);
+        }
+        break;
     }
-    return mutated;
   }
 
   private calculateDiversity(): number {
@@ -147,31 +972,47 @@ export class GeneticAlgorithm {
     return (uniqueStrings.size / this.population.length) * 100;
   }
 
-  step(): GenerationStats {
-    // Sort population by fitness (descending)
-    this.population.sort((a, b) => b.fitness - a.fitness);
+  // One generation of a population sorted best first: carried-over survivors followed by children
+  private breed(
+    population: Individual[],
+    size: number,
+    strategy: SelectionStrategy,
+    mutationRate: number,
+  ): { population: Individual[]; carriedOver: number } {
+    if (this.config.niching === 'crowding') {
+      return this.breedByCrowding(population, mutationRate);
+    }
+    // Crowding distance already spreads a multi-objective population along the front
+    if (this.config.niching === 'sharing' && !this.isMultiObjective()) {
+      population = this.rankBySharedFitness(population);
+    }
 
     // Calculate number of survivors
     const survivorCount = Math.max(
       2,
-      Math.ceil(this.population.length * (this.config.survivalRate / 100)),
+      Math.ceil(population.length * (this.config.survivalRate / 100)),
     );
-    const survivors = this.population.slice(0, survivorCount);
+    const survivors = population.slice(0, survivorCount);
 
     // Create new population based on strategy
     let newPopulation: Individual[] = [];
 
-    // For elitism, keep top survivors
-    if (this.config.selectionStrategy === 'elitism') {
+    // For elitism, keep top survivors; other strategies carry over only the elite count
+    if (strategy === 'elitism') {
       newPopulation = [...survivors];
+    } else {
+      newPopulation = population.slice(0, Math.min(this.config.eliteCount!, size));
     }
 
+    const carriedOver = newPopulation.length;
+    const wheel = this.buildSelectionWheel(population, strategy);
+
     // Fill the rest of the population
-    while (newPopulation.length < this.config.populationSize) {
+    while (newPopulation.length < size) {
       let parent1: Individual;
       let parent2: Individual;
 
-      switch (this.config.selectionStrategy) {
+      switch (strategy) {
         case 'elitism':
           // Both parents from survivors
           parent1 = this.selectParent(survivors);
@@ -181,72 +1022,447 @@ export class GeneticAlgorithm {
         case 'semi-elitism':
           // One parent from survivors, one from entire population
           parent1 = this.selectParent(survivors);
-          parent2 = this.selectRandomFromPopulation();
+          parent2 = this.selectRandomFromPopulation(population);
           break;
 
         case 'random':
           // Both parents from entire population
-          parent1 = this.selectRandomFromPopulation();
-          parent2 = this.selectRandomFromPopulation();
+          parent1 = this.selectRandomFromPopulation(population);
+          parent2 = this.selectRandomFromPopulation(population);
+          break;
+
+        case 'tournament':
+          // Each parent is the fittest of k random contenders
+          parent1 = this.selectByTournament(population);
+          parent2 = this.selectByTournament(population);
+          break;
+
+        case 'roulette':
+        case 'rank':
+        case 'boltzmann':
+          // Fitness-proportionate sampling from the entire population
+          parent1 = this.selectFromWheel(population, wheel!);
+          parent2 = this.selectFromWheel(population, wheel!);
           break;
       }
 
-      const [child1DNA, child2DNA] = this.crossover(parent1, parent2);
+      const [child1, child2] = this.crossover(parent1, parent2);
 
-      const mutatedChild1 = this.mutate(child1DNA);
-      const mutatedChild2 = this.mutate(child2DNA);
+      const mutatedChild1 = this.mutate(child1, mutationRate);
+      const mutatedChild2 = this.mutate(child2, mutationRate);
 
-      if (newPopulation.length < this.config.populationSize) {
-        newPopulation.push({
-          dna: mutatedChild1,
-          fitness: this.calculateFitness(mutatedChild1),
-        });
+      if (newPopulation.length < size) {
+        newPopulation.push(
+          this.createChild(mutatedChild1, child1.crossoverPoints, [parent1, parent2]),
+        );
       }
 
-      if (newPopulation.length < this.config.populationSize) {
-        newPopulation.push({
-          dna: mutatedChild2,
-          fitness: this.calculateFitness(mutatedChild2),
-        });
+      if (newPopulation.length < size) {
+        newPopulation.push(
+          this.createChild(mutatedChild2, child2.crossoverPoints, [parent1, parent2]),
+        );
       }
     }
 
-    this.population = newPopulation;
+    return { population: newPopulation, carriedOver };
+  }
+
+  // Sorts by shared fitness for selection. The best string keeps first place whatever its niche,
+  // so sharing never loses the best solution found so far.
+  private rankBySharedFitness(population: Individual[]): Individual[] {
+    const radius = Math.max(1, this.config.sharingRadius!);
+    const scores = sharedFitness(population, radius, this.rng);
+    this.selectionScores = new Map(population.map((individual, i) => [individual, scores[i]]));
+
+    const [best, ...rest] = population;
+    rest.sort((a, b) => this.getSelectionFitness(b) - this.getSelectionFitness(a));
+    return [best, ...rest];
+  }
+
+  // Interactive mode: every rated string is carried over with its rating, and the rest of the
+  // population is bred from them with the configured selection strategy. Until something is
+  // rated the whole population breeds as usual.
+  private breedFromPicks(
+    population: Individual[],
+    mutationRate: number,
+  ): { population: Individual[]; carriedOver: number } {
+    const size = this.config.populationSize;
+    const strategy = this.config.selectionStrategy;
+    const picks = population.filter((individual) => individual.fitness > 0);
+    if (picks.length === 0) {
+      return this.breed(population, size, strategy, mutationRate);
+    }
+
+    // Picks the strategy carried over itself are already in the list
+    const bred = this.breed(picks, size, strategy, mutationRate);
+    const children = bred.population.slice(
+      bred.carriedOver,
+      bred.carriedOver + size - picks.length,
+    );
+    return { population: [...picks, ...children], carriedOver: picks.length };
+  }
+
+  // Deterministic crowding: parents pair up at random and each child competes only with the
+  // parent it most resembles, replacing it if at least as fit. A niche can then only be taken
+  // over by a better member of the same niche. Ties go to the child so neutral changes spread.
+  // With two objectives the child wins unless its parent dominates it.
+  private breedByCrowding(
+    population: Individual[],
+    mutationRate: number,
+  ): { population: Individual[]; carriedOver: number } {
+    const parents = [...population];
+    for (let i = parents.length - 1; i > 0; i--) {
+      const j = this.randomInt(i + 1);
+      [parents[i], parents[j]] = [parents[j], parents[i]];
+    }
+
+    // With an odd count the last parent has no partner and is carried over unchanged
+    const kept: Individual[] = parents.length % 2 === 1 ? [parents[parents.length - 1]] : [];
+    const children: Individual[] = [];
+    for (let i = 0; i + 1 < parents.length; i += 2) {
+      const pair: [Individual, Individual] = [parents[i], parents[i + 1]];
+      const [child1, child2] = this.crossover(pair[0], pair[1]).map((child) =>
+        this.createChild(this.mutate(child, mutationRate), child.crossoverPoints, pair),
+      );
+
+      const genomes = [...pair, child1, child2].map((ind) => splitCodePoints(ind.dna));
+      const straight =
+        hammingDistance(genomes[0], genomes[2]) + hammingDistance(genomes[1], genomes[3]);
+      const crossed =
+        hammingDistance(genomes[0], genomes[3]) + hammingDistance(genomes[1], genomes[2]);
+      const contests: [Individual, Individual][] =
+        straight <= crossed
+          ? [
+              [pair[0], child1],
+              [pair[1], child2],
+            ]
+          : [
+              [pair[0], child2],
+              [pair[1], child1],
+            ];
+
+      for (const [parent, child] of contests) {
+        const childWins = this.isMultiObjective()
+          ? !dominates(this.getObjectivePair(parent), this.getObjectivePair(child))
+          : child.fitness >= parent.fitness;
+        if (childWins) {
+          children.push(child);
+        } else {
+          kept.push(parent);
+        }
+      }
+    }
+
+    return { population: [...kept, ...children], carriedOver: kept.length };
+  }
+
+  private getMigrationDestinations(island: number): number[] {
+    const count = this.config.islandCount!;
+    switch (this.config.migrationTopology) {
+      case 'fully-connected':
+        return Array.from({ length: count }, (_, other) => other).filter(
+          (other) => other !== island,
+        );
+      case 'random': {
+        // Any island but the sender
+        const other = this.randomInt(count - 1);
+        return [other >= island ? other + 1 : other];
+      }
+      default:
+        return [(island + 1) % count];
+    }
+  }
+
+  // Copies each island's best individuals along its links, replacing the worst on arrival.
+  // Emigrants are all chosen before anyone arrives, so islands are processed in any order.
+  private migrate(population: Individual[]): Individual[] {
+    const islands: Individual[][] = this.getIslandSizes().map(() => []);
+    for (const individual of population) {
+      islands[individual.island!].push(individual);
+    }
+    for (const members of islands) {
+      members.sort((a, b) => b.fitness - a.fitness);
+    }
+
+    const arrivals: Individual[][] = islands.map(() => []);
+    islands.forEach((members, island) => {
+      const emigrants = members.slice(0, this.config.migrantCount!);
+      for (const destination of this.getMigrationDestinations(island)) {
+        for (const emigrant of emigrants) {
+          arrivals[destination].push({ ...emigrant, island: destination });
+        }
+      }
+    });
+
+    return islands.flatMap((members, island) => {
+      // An island always keeps its own best, however many migrants arrive
+      const incoming = arrivals[island].slice(0, members.length - 1);
+      return [...members.slice(0, members.length - incoming.length), ...incoming];
+    });
+  }
+
+  private shouldChangeTarget(): boolean {
+    if (!this.isMovingTarget()) return false;
+
+    if (this.config.targetChange === 'completion') {
+      return this.population.some((ind) => ind.fitness >= this.getMaxFitness());
+    }
+    return (this.generation + 1) % Math.max(1, this.config.targetChangeInterval!) === 0;
+  }
+
+  // Moves to the next phrase or drifts the current one, then rescores the population against it.
+  // Rescored individuals are new objects, so recorded history keeps the scores they had.
+  private changeTarget(): void {
+    const best = this.population.reduce((max, ind) => Math.max(max, ind.fitness), 0);
+    const level = Math.min(1, best / this.getMaxFitness());
+
+    let target: string;
+    if (this.config.targetMode === 'cycle') {
+      const targets = this.getTargets();
+      this.environment.targetIndex = (this.environment.targetIndex + 1) % targets.length;
+      target = targets[this.environment.targetIndex];
+    } else {
+      target = this.driftTarget(this.environment.target);
+    }
+    recordChange(this.environment, target, this.generation + 1, level);
+
+    this.population = this.population.map((ind) => this.score({ ...ind }));
+    if (this.isMultiObjective()) {
+      this.population = this.withParetoFronts(this.population);
+    }
+  }
+
+  // Fronts are sorted once per generation, when the population is settled, and reused by its stats
+  // and by the next ranking. Returns new objects, so recorded history keeps the fronts it had.
+  private withParetoFronts(population: Individual[]): Individual[] {
+    const fronts = nonDominatedSort(population.map((ind) => this.getObjectivePair(ind)));
+    return population.map((ind, index) => ({ ...ind, paretoFront: fronts[index] }));
+  }
+
+  // NSGA-II ranking: by Pareto front, then by crowding distance within a front. Selection then
+  // compares positions in this order instead of raw fitness.
+  private rankByParetoFront(): void {
+    // Like their objectives, fronts are missing from before multi-objective mode was switched on
+    const fronts = this.population.every((ind) => ind.paretoFront !== undefined)
+      ? this.population.map((ind) => ind.paretoFront!)
+      : undefined;
+    const order = rankByCrowding(
+      this.population.map((ind) => this.getObjectivePair(ind)),
+      fronts,
+    );
+    this.population = order.map((index) => this.population[index]);
+    this.selectionScores = new Map(
+      this.population.map((individual, index) => [individual, this.population.length - index]),
+    );
+  }
+
+  // Replaces characters at random positions, each with a different character from the pool
+  private driftTarget(target: string): string {
+    const genes = splitCodePoints(target);
+    if (this.characterPool.length < 2) return target;
+
+    for (let edit = 0; edit < this.config.driftEdits!; edit++) {
+      const position = this.randomInt(genes.length);
+      let character: string;
+      do {
+        character = this.getRandomCharacter();
+      } while (character === genes[position]);
+      genes[position] = character;
+    }
+    return genes.join('');
+  }
+
+  step(): GenerationStats {
+    if (this.shouldChangeTarget()) {
+      this.changeTarget();
+    }
+
+    if (this.isMultiObjective()) {
+      this.rankByParetoFront();
+    } else {
+      // Sort population by fitness (descending)
+      this.population.sort((a, b) => b.fitness - a.fitness);
+    }
+    this.events.emit('beforeSelection', this.population, this.generation);
+
+    this.currentMutationRate = this.getEffectiveMutationRate();
+    const islandMutationRates = this.isIslandModel()
+      ? this.getIslandSizes().map((_, island) => {
+          const rate = this.config.islandSettings?.[island]?.mutationRate;
+          return rate === undefined
+            ? this.currentMutationRate
+            : this.getEffectiveMutationRate(rate);
+        })
+      : [];
+    if (this.hypermutationRemaining > 0) {
+      this.hypermutationRemaining--;
+    }
+
+    let newPopulation: Individual[];
+    let offspring: Individual[];
+    if (this.isIslandModel()) {
+      newPopulation = [];
+      offspring = [];
+      this.getIslandSizes().forEach((size, island) => {
+        // Filtering keeps the sort order, so each island is also sorted best first
+        const members = this.population.filter((ind) => ind.island === island);
+        const strategy =
+          this.config.islandSettings?.[island]?.selectionStrategy ?? this.config.selectionStrategy;
+        const bred = this.breed(members, size, strategy, islandMutationRates[island]);
+        for (const individual of bred.population) {
+          individual.island = island;
+        }
+        newPopulation.push(...bred.population);
+        offspring.push(...bred.population.slice(bred.carriedOver));
+      });
+    } else {
+      const bred = this.isInteractive()
+        ? this.breedFromPicks(this.population, this.currentMutationRate)
+        : this.breed(
+            this.population,
+            this.config.populationSize,
+            this.config.selectionStrategy,
+            this.currentMutationRate,
+          );
+      newPopulation = bred.population;
+      offspring = bred.population.slice(bred.carriedOver);
+    }
+    this.selectionScores = null;
+
+    if (this.events.hasListeners('afterMutation')) {
+      this.events.emit('afterMutation', offspring, this.generation + 1);
+    }
+    if (this.isIslandModel() && (this.generation + 1) % this.config.migrationInterval! === 0) {
+      newPopulation = this.migrate(newPopulation);
+    }
+    if (this.config.eliminateDuplicates) {
+      this.replaceDuplicates(newPopulation);
+    }
+    this.applyStagnationResponse(newPopulation);
+
+    this.population = this.isMultiObjective()
+      ? this.withParetoFronts(newPopulation)
+      : newPopulation;
     this.generation++;
+    if (this.isMovingTarget()) {
+      const best = this.population.reduce((max, ind) => Math.max(max, ind.fitness), 0);
+      recordProgress(this.environment, this.generation, best / this.getMaxFitness());
+    }
+
+    const stats = this.getStats();
+    const reachedStagnation =
+      stats.generationsSinceImprovement > 0 &&
+      stats.generationsSinceImprovement % this.config.stagnationThreshold! === 0;
 
-    return this.getStats();
+    // Start a burst each time another full stagnation threshold passes without improvement
+    if (this.config.hypermutation && reachedStagnation) {
+      this.hypermutationRemaining = this.config.hypermutationDuration!;
+    }
+
+    this.events.emit('generation', stats);
+    if (stats.generationsSinceImprovement === 0) {
+      this.events.emit('newBest', stats.bestIndividual, stats);
+      // Reaching the maximum is always an improvement, so this fires exactly once per run
+      if (stats.isComplete) {
+        this.events.emit('complete', stats);
+      }
+    }
+    if (reachedStagnation) {
+      this.events.emit('stagnation', stats);
+    }
+
+    return stats;
   }
 
   getStats(): GenerationStats {
-    const sortedPopulation = [...this.population].sort((a, b) => b.fitness - a.fitness);
-    const bestIndividual = sortedPopulation[0];
-    const totalFitness = this.population.reduce((sum, ind) => sum + ind.fitness, 0);
-    const averageFitness = totalFitness / this.population.length;
-    const diversity = this.calculateDiversity();
-    const isComplete = bestIndividual.fitness === this.config.target.length;
+    const bestFitness = this.population.reduce(
+      (best, ind) => Math.max(best, ind.fitness),
+      -Infinity,
+    );
 
     // Track best fitness history and check for improvements
     if (
       this.bestFitnessHistory.length === 0 ||
-      bestIndividual.fitness > this.bestFitnessHistory[this.bestFitnessHistory.length - 1]
+      bestFitness > this.bestFitnessHistory[this.bestFitnessHistory.length - 1]
     ) {
       this.generationsSinceImprovement = 0;
     } else {
       this.generationsSinceImprovement++;
     }
-    this.bestFitnessHistory.push(bestIndividual.fitness);
+    this.bestFitnessHistory.push(bestFitness);
 
-    const isStagnant = this.generationsSinceImprovement >= this.stagnationThreshold;
+    return this.peekStats();
+  }
 
-    return {
+  // Stats for the current generation without recording it in the improvement history
+  peekStats(): GenerationStats {
+    const sortedPopulation = [...this.population].sort((a, b) => b.fitness - a.fitness);
+    const bestIndividual = sortedPopulation[0];
+    const totalFitness = this.population.reduce((sum, ind) => sum + ind.fitness, 0);
+    const averageFitness = totalFitness / this.population.length;
+    const maxFitness = this.getMaxFitness();
+    const diversity = this.calculateDiversity();
+    const genomes = this.population.map((ind) => splitCodePoints(ind.dna));
+    // Sample pairs from a generator of their own so measuring never changes the run
+    const hammingDistance = meanHammingDistance(genomes, this.createRng(this.generation));
+    const locusEntropy = meanLocusEntropy(genomes, this.getStringLength());
+    const fitnessDistribution = describeFitness(
+      this.population.map((ind) => ind.fitness),
+      averageFitness,
+    );
+    // A moving target never stays reached, a trade-off has no single answer and a person's
+    // ratings have no goal, so such runs only end at their generation limit
+    const isComplete =
+      !this.isMovingTarget() &&
+      !this.isMultiObjective() &&
+      !this.isInteractive() &&
+      bestIndividual.fitness >= maxFitness;
+    const isStagnant = this.generationsSinceImprovement >= this.config.stagnationThreshold!;
+
+    const stats: GenerationStats = {
       generation: this.generation,
       bestIndividual,
       averageFitness,
+      maxFitness,
       diversity,
+      hammingDistance,
+      locusEntropy,
+      fitnessDistribution,
       isComplete,
       isStagnant,
       generationsSinceImprovement: this.generationsSinceImprovement,
+      mutationRate: this.currentMutationRate,
     };
+    if (this.isIslandModel()) {
+      stats.islands = this.getIslandStats();
+    }
+    if (this.isMovingTarget()) {
+      stats.environment = describeEnvironment(this.environment, this.generation);
+    }
+    if (this.isMultiObjective()) {
+      const front = this.population.filter((ind) => ind.paretoFront === 0);
+      stats.paretoFrontSize = new Set(front.map((ind) => ind.dna)).size;
+    }
+    return stats;
+  }
+
+  private getIslandStats(): IslandStats[] {
+    const islands = this.getIslandSizes().map(() => ({
+      size: 0,
+      bestFitness: -Infinity,
+      totalFitness: 0,
+    }));
+    for (const individual of this.population) {
+      const island = islands[individual.island!];
+      island.size++;
+      island.bestFitness = Math.max(island.bestFitness, individual.fitness);
+      island.totalFitness += individual.fitness;
+    }
+    return islands.map((island) => ({
+      size: island.size,
+      bestFitness: island.size > 0 ? island.bestFitness : 0,
+      averageFitness: island.size > 0 ? island.totalFitness / island.size : 0,
+    }));
   }
 
   reset(): void {
@@ -254,12 +1470,22 @@ export class GeneticAlgorithm {
     this.generation = 0;
     this.bestFitnessHistory = [];
     this.generationsSinceImprovement = 0;
+    this.hypermutationRemaining = 0;
+    this.environment = createEnvironment(this.config.target);
   }
 
   updateConfig(config: Partial<GeneticAlgorithmConfig>): void {
     this.config = { ...this.config, ...config };
-    if (config.characterSet) {
+    if (config.characterSet || config.customCharacters !== undefined) {
       this.setCharacterPool();
     }
+    if (config.fitnessStrategy || config.customFitness) {
+      this.setFitnessFunction();
+    } else if (config.target || config.targets || config.targetMode) {
+      this.setTargetScales();
+    }
+    if (config.seed !== undefined) {
+      this.rng = this.createRng(config.seed);
+    }
   }
 }
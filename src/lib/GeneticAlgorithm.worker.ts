@@ -0,0 +1,189 @@
+import { GeneticAlgorithm } from './GeneticAlgorithm';
+import type { GenerationStats } from './GeneticAlgorithm';
+import { HistoryRecorder } from './HistoryRecorder';
+import { LineageTracker } from './LineageTracker';
+import { calculateLocusStats } from './LocusStatistics';
+import type { LocusStats } from './LocusStatistics';
+import { workerScope } from './WorkerProtocol';
+import type { SessionOptions, WorkerRequest, WorkerResponse } from './WorkerProtocol';
+
+const scope = workerScope<WorkerRequest, WorkerResponse>();
+
+// At zero delay, step for up to one frame's worth of time before reporting back
+const BATCH_DURATION_MS = 16;
+// Cloning a large population is expensive, so only ship it this often while running
+const POPULATION_INTERVAL_MS = 100;
+// Generations an individual is remembered after leaving the population, bounding the family tree
+const LINEAGE_RETENTION = 10;
+
+let ga: GeneticAlgorithm | null = null;
+let recorder: HistoryRecorder | null = null;
+let lineage: LineageTracker | null = null;
+// Locus stats for generations not yet reported; null when the session does not track them
+let pendingLoci: LocusStats[] | null = null;
+let runToken = 0;
+let lastPopulationSent = 0;
+
+function post(message: WorkerResponse): void {
+  scope.postMessage(message);
+}
+
+function startRecording(options: SessionOptions): void {
+  recorder = options.history ? new HistoryRecorder(options.history) : null;
+  recorder?.attach(ga!);
+  lineage = ga!.getConfig().trackLineage ? new LineageTracker(LINEAGE_RETENTION) : null;
+  lineage?.attach(ga!);
+
+  pendingLoci = options.locusStats ? [] : null;
+  if (options.locusStats) {
+    const current = ga!;
+    current.onGeneration((stats) => {
+      pendingLoci?.push(currentLocusStats(current, stats.generation));
+    });
+  }
+}
+
+function currentLocusStats(current: GeneticAlgorithm, generation: number): LocusStats {
+  return calculateLocusStats(current.getPopulation(), current.getTarget(), generation);
+}
+
+function postGenerations(stats: GenerationStats[], forcePopulation: boolean): void {
+  const now = performance.now();
+  const sendPopulation = forcePopulation || now - lastPopulationSent >= POPULATION_INTERVAL_MS;
+  if (sendPopulation) {
+    lastPopulationSent = now;
+  }
+  post({
+    type: 'generations',
+    stats,
+    population: sendPopulation ? [...ga!.getPopulation()] : null,
+    loci: pendingLoci ? pendingLoci.splice(0) : null,
+  });
+}
+
+function run(generations: number, delay: number): void {
+  const token = ++runToken;
+  let remaining = generations > 0 ? generations : Infinity;
+
+  const tick = () => {
+    // A newer run or a stop request has superseded this loop
+    if (token !== runToken || !ga) return;
+
+    const batch: GenerationStats[] = [];
+    const deadline = performance.now() + BATCH_DURATION_MS;
+    let stats: GenerationStats;
+    do {
+      stats = ga.step();
+      batch.push(stats);
+      remaining--;
+    } while (delay === 0 && !stats.isComplete && remaining > 0 && performance.now() < deadline);
+
+    const finished = stats.isComplete || remaining <= 0;
+    postGenerations(batch, finished);
+
+    if (stats.isComplete) {
+      runToken++;
+      post({ type: 'stopped', reason: 'complete' });
+    } else if (remaining <= 0) {
+      runToken++;
+      post({ type: 'stopped', reason: 'limit' });
+    } else {
+      // Yield to the event loop so a pending 'stop' message is handled before the next batch
+      setTimeout(tick, delay);
+    }
+  };
+
+  setTimeout(tick, delay);
+}
+
+function handleRequest(request: WorkerRequest): void {
+  switch (request.type) {
+    case 'init': {
+      runToken++;
+      ga = new GeneticAlgorithm(request.config);
+      ga.initialize();
+      // Generation 0 enters the improvement history before the recorder captures it
+      const stats = ga.getStats();
+      startRecording(request.options);
+      post({
+        type: 'initialized',
+        config: ga.getConfig(),
+        stats,
+        population: [...ga.getPopulation()],
+        loci: pendingLoci ? currentLocusStats(ga, stats.generation) : null,
+      });
+      break;
+    }
+
+    case 'step':
+      if (!ga) throw new Error('Simulation has not been initialized');
+      postGenerations([ga.step()], true);
+      break;
+
+    case 'rate':
+      if (!ga) throw new Error('Simulation has not been initialized');
+      ga.rate(request.ratings);
+      break;
+
+    case 'run':
+      if (!ga) throw new Error('Simulation has not been initialized');
+      run(request.generations, request.delay);
+      break;
+
+    case 'stop':
+      runToken++;
+      post({ type: 'stopped', reason: 'stopped' });
+      break;
+
+    case 'snapshot':
+      if (!ga) throw new Error('Simulation has not been initialized');
+      post({ type: 'snapshot', state: ga.getState() });
+      break;
+
+    case 'frame': {
+      const frame = recorder?.getFrame(request.generation) ?? null;
+      post({
+        type: 'frame',
+        frame,
+        nextGeneration: frame ? recorder!.getNextGeneration(frame.generation) : null,
+        range: recorder?.getRange() ?? null,
+      });
+      break;
+    }
+
+    case 'lineage':
+      if (!ga) throw new Error('Simulation has not been initialized');
+      post({
+        type: 'lineage',
+        tree:
+          lineage?.buildTree(
+            ga.peekStats().bestIndividual,
+            Math.min(request.depth, LINEAGE_RETENTION),
+          ) ?? null,
+      });
+      break;
+
+    case 'restore': {
+      runToken++;
+      ga = GeneticAlgorithm.fromState(request.state);
+      startRecording(request.options);
+      const stats = ga.peekStats();
+      post({
+        type: 'restored',
+        config: ga.getConfig(),
+        stats,
+        population: [...ga.getPopulation()],
+        loci: pendingLoci ? currentLocusStats(ga, stats.generation) : null,
+      });
+      break;
+    }
+  }
+}
+
+scope.addEventListener('message', (event) => {
+  try {
+    handleRequest(event.data);
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
@@ -0,0 +1,70 @@
+import type { GeneticAlgorithmState, Rating } from './GeneticAlgorithm';
+import type { SessionOptions, WorkerConfig, WorkerRequest, WorkerResponse } from './WorkerProtocol';
+
+const DEFAULT_SESSION: SessionOptions = { history: null, locusStats: false };
+
+// Main-thread handle to a GeneticAlgorithm running inside a Web Worker
+export class GeneticAlgorithmRunner {
+  private worker: Worker;
+
+  constructor(onMessage: (message: WorkerResponse) => void) {
+    this.worker = new Worker(new URL('./GeneticAlgorithm.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => {
+      onMessage(event.data);
+    });
+    this.worker.addEventListener('error', (event) => {
+      onMessage({ type: 'error', message: event.message });
+    });
+  }
+
+  private post(request: WorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  // Session options turn on history for the timeline and per-position stats for the heatmap
+  initialize(config: WorkerConfig, options: SessionOptions = DEFAULT_SESSION): void {
+    this.post({ type: 'init', config, options });
+  }
+
+  step(): void {
+    this.post({ type: 'step' });
+  }
+
+  // Interactive mode: replaces the current ratings, which the next step breeds from
+  rate(ratings: Rating[]): void {
+    this.post({ type: 'rate', ratings });
+  }
+
+  // Runs until the target is reached, or for a fixed number of generations when given
+  run(delay: number, generations: number = 0): void {
+    this.post({ type: 'run', generations, delay });
+  }
+
+  stop(): void {
+    this.post({ type: 'stop' });
+  }
+
+  // The worker answers with a 'snapshot' message carrying the full algorithm state
+  requestSnapshot(): void {
+    this.post({ type: 'snapshot' });
+  }
+
+  restore(state: GeneticAlgorithmState, options: SessionOptions = DEFAULT_SESSION): void {
+    this.post({ type: 'restore', state, options });
+  }
+
+  // The worker answers with a 'frame' message for the nearest recorded generation
+  requestFrame(generation: number): void {
+    this.post({ type: 'frame', generation });
+  }
+
+  requestLineage(depth: number): void {
+    this.post({ type: 'lineage', depth });
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+  }
+}
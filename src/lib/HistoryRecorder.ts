@@ -0,0 +1,82 @@
+import type { GeneticAlgorithm, GenerationStats, Individual } from './GeneticAlgorithm';
+import type { Unsubscribe } from './EventEmitter';
+
+export interface HistoryOptions {
+  depth: number; // maximum number of frames kept; the oldest are dropped first
+  sampleInterval: number; // record every Nth generation (generation 0 is always recorded)
+}
+
+export interface HistoryFrame {
+  generation: number;
+  stats: GenerationStats;
+  population: Individual[]; // best first
+}
+
+// Keeps copies of past populations so a run can be scrubbed back and replayed
+export class HistoryRecorder {
+  private frames: HistoryFrame[] = [];
+  private options: HistoryOptions;
+
+  constructor(options: HistoryOptions) {
+    this.options = {
+      depth: Math.max(1, Math.floor(options.depth)),
+      sampleInterval: Math.max(1, Math.floor(options.sampleInterval)),
+    };
+  }
+
+  // Records the current generation and then every sampled generation stepped afterwards
+  attach(ga: GeneticAlgorithm): Unsubscribe {
+    this.record(ga.peekStats(), ga.getPopulation());
+    return ga.onGeneration((stats) => this.record(stats, ga.getPopulation()));
+  }
+
+  record(stats: GenerationStats, population: readonly Individual[]): void {
+    // The first frame is always kept, so a run restored mid-way has a starting point
+    if (stats.generation % this.options.sampleInterval !== 0 && this.frames.length > 0) return;
+
+    this.frames.push({
+      generation: stats.generation,
+      stats,
+      population: population
+        .map((individual) => ({ ...individual }))
+        .sort((a, b) => b.fitness - a.fitness),
+    });
+    if (this.frames.length > this.options.depth) {
+      this.frames.shift();
+    }
+  }
+
+  // Latest frame at or before the given generation, or the oldest frame kept if it is earlier
+  getFrame(generation: number): HistoryFrame | null {
+    if (this.frames.length === 0) return null;
+
+    let low = 0;
+    let high = this.frames.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.frames[mid].generation <= generation) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return this.frames[low];
+  }
+
+  // The first recorded generation after the given one, used to step through a replay
+  getNextGeneration(generation: number): number | null {
+    return this.frames.find((frame) => frame.generation > generation)?.generation ?? null;
+  }
+
+  getRange(): { first: number; last: number } | null {
+    if (this.frames.length === 0) return null;
+    return {
+      first: this.frames[0].generation,
+      last: this.frames[this.frames.length - 1].generation,
+    };
+  }
+
+  clear(): void {
+    this.frames = [];
+  }
+}
@@ -0,0 +1,71 @@
+import type { GeneticAlgorithm, Individual, Lineage } from './GeneticAlgorithm';
+import type { Unsubscribe } from './EventEmitter';
+
+export interface LineageNode extends Lineage {
+  dna: string;
+  fitness: number;
+  parents: LineageNode[]; // ancestors still on record; match them to parentIds by id
+}
+
+interface LineageRecord {
+  individual: Individual;
+  lastSeen: number; // latest generation the individual was part of the population
+}
+
+// Remembers recent individuals by id so the ancestry of any current individual can be rebuilt.
+// Requires the algorithm to run with trackLineage enabled.
+export class LineageTracker {
+  private records = new Map<number, LineageRecord>();
+  private retention: number;
+
+  // Individuals are forgotten once they have been out of the population for this many generations
+  constructor(retention: number) {
+    this.retention = Math.max(1, Math.floor(retention));
+  }
+
+  attach(ga: GeneticAlgorithm): Unsubscribe {
+    this.record(ga.getPopulation(), ga.peekStats().generation);
+    return ga.onGeneration((stats) => this.record(ga.getPopulation(), stats.generation));
+  }
+
+  record(population: readonly Individual[], generation: number): void {
+    for (const individual of population) {
+      if (individual.lineage) {
+        this.records.set(individual.lineage.id, { individual, lastSeen: generation });
+      }
+    }
+
+    for (const [id, record] of this.records) {
+      if (record.lastSeen < generation - this.retention) {
+        this.records.delete(id);
+      }
+    }
+  }
+
+  // Ancestry tree of an individual, going back at most `depth` generations of parents
+  buildTree(individual: Individual, depth: number): LineageNode | null {
+    if (!individual.lineage) return null;
+
+    const node: LineageNode = {
+      ...individual.lineage,
+      dna: individual.dna,
+      fitness: individual.fitness,
+      parents: [],
+    };
+    if (depth <= 0) return node;
+
+    // Selfing (both parents the same individual) is shown as a single parent
+    for (const parentId of new Set(individual.lineage.parentIds)) {
+      const parent = this.records.get(parentId)?.individual;
+      const parentNode = parent ? this.buildTree(parent, depth - 1) : null;
+      if (parentNode) {
+        node.parents.push(parentNode);
+      }
+    }
+    return node;
+  }
+
+  clear(): void {
+    this.records.clear();
+  }
+}
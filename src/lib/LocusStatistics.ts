@@ -0,0 +1,63 @@
+import type { Individual } from './GeneticAlgorithm';
+import { splitCodePoints } from './CharacterSets';
+import { shannonEntropy } from './PopulationMetrics';
+
+// Number of most common characters kept per position for the distribution view
+const DISTRIBUTION_SIZE = 8;
+
+export interface LocusDistribution {
+  top: [character: string, count: number][]; // most common first
+  other: number; // individuals holding any other character
+  missing: number; // individuals too short to have this position (variable-length mode)
+}
+
+export interface LocusStats {
+  generation: number;
+  populationSize: number;
+  correct: number[]; // per target position: share 0-1 of the population holding the target character
+  entropy: number[]; // per target position: Shannon entropy in bits, a missing position counts as a symbol
+  distributions: LocusDistribution[];
+}
+
+// Per-position view of convergence. Positions are code point indexes into the target.
+export function calculateLocusStats(
+  population: readonly Individual[],
+  target: string,
+  generation: number,
+): LocusStats {
+  const targetGenes = splitCodePoints(target);
+  const counts = targetGenes.map(() => new Map<string, number>());
+  const missing = targetGenes.map(() => 0);
+
+  for (const individual of population) {
+    const genes = splitCodePoints(individual.dna);
+    for (let i = 0; i < targetGenes.length; i++) {
+      if (i >= genes.length) {
+        missing[i]++;
+      } else {
+        counts[i].set(genes[i], (counts[i].get(genes[i]) ?? 0) + 1);
+      }
+    }
+  }
+
+  const total = population.length;
+  const stats: LocusStats = {
+    generation,
+    populationSize: total,
+    correct: [],
+    entropy: [],
+    distributions: [],
+  };
+
+  for (let i = 0; i < targetGenes.length; i++) {
+    stats.correct.push((counts[i].get(targetGenes[i]) ?? 0) / total);
+
+    stats.entropy.push(shannonEntropy([...counts[i].values(), missing[i]], total));
+
+    const top = [...counts[i]].sort((a, b) => b[1] - a[1]).slice(0, DISTRIBUTION_SIZE);
+    const shown = top.reduce((sum, [, count]) => sum + count, 0);
+    stats.distributions.push({ top, other: total - missing[i] - shown, missing: missing[i] });
+  }
+
+  return stats;
+}
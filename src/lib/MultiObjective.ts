@@ -0,0 +1,119 @@
+import { splitCodePoints } from './CharacterSets';
+
+export type SecondObjective = 'none' | 'few-vowels' | 'second-target';
+
+// Both objectives oriented so that higher is better
+export type ObjectivePair = [number, number];
+
+const VOWELS = new Set('aeiouAEIOU');
+
+export function countVowels(dna: string): number {
+  return splitCodePoints(dna).filter((character) => VOWELS.has(character)).length;
+}
+
+// Axis label of the second objective, and whether smaller values are better
+export function describeSecondObjective(objective: SecondObjective): {
+  label: string;
+  minimize: boolean;
+} {
+  return objective === 'few-vowels'
+    ? { label: 'Vowels', minimize: true }
+    : { label: 'Second target score', minimize: false };
+}
+
+// Objectives are stored in their natural units; dominance compares them with higher as better
+export function orientObjectives(
+  objectives: readonly number[],
+  objective: SecondObjective,
+): ObjectivePair {
+  const minimize = describeSecondObjective(objective).minimize;
+  return [objectives[0], minimize ? -objectives[1] : objectives[1]];
+}
+
+export function dominates(a: ObjectivePair, b: ObjectivePair): boolean {
+  return a[0] >= b[0] && a[1] >= b[1] && (a[0] > b[0] || a[1] > b[1]);
+}
+
+// Front index of every point, 0 being the Pareto front. With two objectives, walking the points
+// by the first objective means each one only has to be compared with the last point added to
+// each front, and those only fall from one front to the next, so a binary search finds its
+// front in O(n log n) overall.
+export function nonDominatedSort(points: readonly ObjectivePair[]): number[] {
+  const order = points
+    .map((_, index) => index)
+    .sort((a, b) => points[b][0] - points[a][0] || points[b][1] - points[a][1]);
+
+  const fronts = new Array<number>(points.length);
+  const lastOfFront: ObjectivePair[] = [];
+  let previous: ObjectivePair | null = null;
+  let previousFront = 0;
+  for (const index of order) {
+    const point = points[index];
+    let front: number;
+    if (previous && previous[0] === point[0] && previous[1] === point[1]) {
+      // Equal points do not dominate each other
+      front = previousFront;
+    } else {
+      let low = 0;
+      let high = lastOfFront.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (lastOfFront[mid][1] < point[1]) {
+          high = mid;
+        } else {
+          low = mid + 1;
+        }
+      }
+      front = low;
+    }
+    lastOfFront[front] = point;
+    fronts[index] = front;
+    previous = point;
+    previousFront = front;
+  }
+  return fronts;
+}
+
+// How far each point is from its neighbours on the same front, summed over both objectives and
+// normalised by their ranges. Points at either end of a front get Infinity so they are kept.
+export function crowdingDistances(points: readonly ObjectivePair[], fronts: number[]): number[] {
+  const distances = new Array<number>(points.length).fill(0);
+  const members: number[][] = [];
+  fronts.forEach((front, index) => {
+    (members[front] ??= []).push(index);
+  });
+
+  for (const front of members) {
+    for (const objective of [0, 1]) {
+      const sorted = [...front].sort((a, b) => points[a][objective] - points[b][objective]);
+      const low = points[sorted[0]][objective];
+      const range = points[sorted[sorted.length - 1]][objective] - low;
+      distances[sorted[0]] = Infinity;
+      distances[sorted[sorted.length - 1]] = Infinity;
+      if (range === 0) continue;
+
+      for (let i = 1; i < sorted.length - 1; i++) {
+        distances[sorted[i]] +=
+          (points[sorted[i + 1]][objective] - points[sorted[i - 1]][objective]) / range;
+      }
+    }
+  }
+  return distances;
+}
+
+// Also orders two Infinity distances, where subtracting would give NaN
+function compareDescending(a: number, b: number): number {
+  return a === b ? 0 : a > b ? -1 : 1;
+}
+
+// NSGA-II's crowded comparison: lower front first, then the less crowded point within a front.
+// Returns the point indexes best first. Fronts already sorted for these points can be passed in.
+export function rankByCrowding(
+  points: readonly ObjectivePair[],
+  fronts: number[] = nonDominatedSort(points),
+): number[] {
+  const distances = crowdingDistances(points, fronts);
+  return points
+    .map((_, index) => index)
+    .sort((a, b) => fronts[a] - fronts[b] || compareDescending(distances[a], distances[b]));
+}
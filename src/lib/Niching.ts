@@ -0,0 +1,59 @@
+import { splitCodePoints } from './CharacterSets';
+import { hammingDistance } from './PopulationMetrics';
+import type { RandomNumberGenerator } from './Random';
+
+export type NichingStrategy = 'none' | 'sharing' | 'crowding';
+
+// Up to this many distinct strings every pair is compared; beyond it each string is compared with
+// a fixed random sample of the population instead
+const EXACT_NICHE_LIMIT = 200;
+const SAMPLED_NEIGHBOURS = 50;
+
+// Fitness sharing with a triangular kernel: every member within `radius` characters shares the
+// score, weighted by how close it is, so a crowded niche is worth less per member than a sparse
+// one. Identical strings are compared once and weighted by their count, which keeps a converged
+// population cheap. Returns the shared score of each individual, in input order.
+export function sharedFitness(
+  individuals: readonly { dna: string; fitness: number }[],
+  radius: number,
+  rng: RandomNumberGenerator,
+): number[] {
+  const counts = new Map<string, number>();
+  for (const individual of individuals) {
+    counts.set(individual.dna, (counts.get(individual.dna) ?? 0) + 1);
+  }
+
+  const distinct = [...counts.keys()];
+  const genomes = distinct.map((dna) => splitCodePoints(dna));
+  const share = (distance: number) => (distance < radius ? 1 - distance / radius : 0);
+  const nicheCounts = new Map<string, number>();
+  if (distinct.length <= EXACT_NICHE_LIMIT) {
+    distinct.forEach((dna, i) => {
+      let nicheCount = 0;
+      genomes.forEach((genome, j) => {
+        const distance = i === j ? 0 : hammingDistance(genomes[i], genome);
+        nicheCount += counts.get(distinct[j])! * share(distance);
+      });
+      nicheCounts.set(dna, nicheCount);
+    });
+  } else {
+    // Drawing members rather than distinct strings weights the sample by count, so scaling its
+    // share up to the whole population estimates the niche count. Copies of the string itself
+    // are counted exactly.
+    const indexOf = new Map(distinct.map((dna, i) => [dna, i]));
+    const sample = Array.from({ length: SAMPLED_NEIGHBOURS }, () =>
+      indexOf.get(individuals[Math.floor(rng.next() * individuals.length)].dna)!,
+    );
+    const scale = individuals.length / SAMPLED_NEIGHBOURS;
+    distinct.forEach((dna, i) => {
+      let sampledShare = 0;
+      for (const j of sample) {
+        if (j !== i) sampledShare += share(hammingDistance(genomes[i], genomes[j]));
+      }
+      nicheCounts.set(dna, counts.get(dna)! + sampledShare * scale);
+    });
+  }
+
+  // A string always shares with itself, so the niche count is at least 1
+  return individuals.map((individual) => individual.fitness / nicheCounts.get(individual.dna)!);
+}
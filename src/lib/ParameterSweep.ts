@@ -0,0 +1,142 @@
+import { GeneticAlgorithm } from './GeneticAlgorithm';
+import type { GeneticAlgorithmConfig, SelectionStrategy } from './GeneticAlgorithm';
+
+export interface NumberRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface SweepRanges {
+  populationSize: NumberRange;
+  survivalRate: NumberRange; // percentage 1-100
+  mutationRate: NumberRange; // percentage, 0 disables mutation
+  selectionStrategies: SelectionStrategy[];
+}
+
+export interface SweepOptions {
+  baseConfig: GeneticAlgorithmConfig;
+  ranges: SweepRanges;
+  runsPerCombination: number;
+  maxGenerations: number;
+  seed: number; // run i of every combination uses seed + i, so combinations share seeds
+}
+
+export interface SweepCombination {
+  populationSize: number;
+  survivalRate: number;
+  mutationRate: number; // percentage
+  selectionStrategy: SelectionStrategy;
+}
+
+export interface SummaryStatistics {
+  mean: number;
+  median: number;
+  stdev: number;
+}
+
+export interface SweepResult extends SweepCombination {
+  runs: number;
+  successes: number;
+  successRate: number; // 0-1
+  generations: SummaryStatistics | null; // generations to solution, successful runs only
+  wallClockMs: SummaryStatistics;
+}
+
+// Guards against accidentally queueing hours of work from a too-fine step size
+export const MAX_COMBINATIONS = 500;
+
+export function expandRange(range: NumberRange): number[] {
+  if (range.step <= 0 || range.max < range.min) {
+    return [range.min];
+  }
+
+  const values: number[] = [];
+  // Round each value to avoid accumulating floating point error (0.1 + 0.2 ...)
+  for (let i = 0; ; i++) {
+    const value = Number((range.min + i * range.step).toFixed(6));
+    if (value > range.max + 1e-9) break;
+    values.push(value);
+  }
+  return values;
+}
+
+export function buildCombinations(ranges: SweepRanges): SweepCombination[] {
+  const combinations: SweepCombination[] = [];
+  for (const selectionStrategy of ranges.selectionStrategies) {
+    for (const populationSize of expandRange(ranges.populationSize)) {
+      for (const survivalRate of expandRange(ranges.survivalRate)) {
+        for (const mutationRate of expandRange(ranges.mutationRate)) {
+          combinations.push({ populationSize, survivalRate, mutationRate, selectionStrategy });
+        }
+      }
+    }
+  }
+  return combinations;
+}
+
+export function summarize(values: number[]): SummaryStatistics | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const middle = Math.floor(sorted.length / 2);
+  const median =
+    sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return { mean, median, stdev: Math.sqrt(variance) };
+}
+
+export interface SweepTrial {
+  solved: boolean;
+  generations: number;
+  durationMs: number;
+}
+
+// One run of one combination; kept separate so callers can yield between runs
+export function runTrial(
+  options: SweepOptions,
+  combination: SweepCombination,
+  run: number,
+): SweepTrial {
+  const ga = new GeneticAlgorithm({
+    ...options.baseConfig,
+    populationSize: combination.populationSize,
+    survivalRate: combination.survivalRate,
+    mutationEnabled: combination.mutationRate > 0,
+    mutationRate: combination.mutationRate / 100,
+    selectionStrategy: combination.selectionStrategy,
+    seed: (options.seed + run) >>> 0,
+  });
+
+  const startTime = performance.now();
+  ga.initialize();
+  let stats = ga.getStats();
+  while (!stats.isComplete && stats.generation < options.maxGenerations) {
+    stats = ga.step();
+  }
+
+  return {
+    solved: stats.isComplete,
+    generations: stats.generation,
+    durationMs: performance.now() - startTime,
+  };
+}
+
+export function summarizeTrials(combination: SweepCombination, trials: SweepTrial[]): SweepResult {
+  const generations = trials.filter((trial) => trial.solved).map((trial) => trial.generations);
+
+  return {
+    ...combination,
+    runs: trials.length,
+    successes: generations.length,
+    successRate: trials.length > 0 ? generations.length / trials.length : 0,
+    generations: summarize(generations),
+    wallClockMs: summarize(trials.map((trial) => trial.durationMs)) ?? {
+      mean: 0,
+      median: 0,
+      stdev: 0,
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { buildCombinations, runTrial, summarizeTrials, MAX_COMBINATIONS } from './ParameterSweep';
+import type { SweepOptions, SweepTrial } from './ParameterSweep';
+import { workerScope } from './WorkerProtocol';
+import type { SweepWorkerRequest, SweepWorkerResponse } from './WorkerProtocol';
+
+const scope = workerScope<SweepWorkerRequest, SweepWorkerResponse>();
+
+// Run trials for up to this long before yielding so a 'cancel' message can get through
+const SLICE_DURATION_MS = 50;
+
+let sweepToken = 0;
+
+function post(message: SweepWorkerResponse): void {
+  scope.postMessage(message);
+}
+
+function startSweep(options: SweepOptions): void {
+  const token = ++sweepToken;
+  const combinations = buildCombinations(options.ranges);
+  if (combinations.length > MAX_COMBINATIONS) {
+    throw new Error(
+      `Sweep has ${combinations.length} combinations; narrow the ranges to at most ${MAX_COMBINATIONS}`,
+    );
+  }
+
+  const totalRuns = combinations.length * options.runsPerCombination;
+  let combinationIndex = 0;
+  let trials: SweepTrial[] = [];
+
+  const slice = () => {
+    // Cancelled, or superseded by a newer sweep
+    if (token !== sweepToken) return;
+
+    const deadline = performance.now() + SLICE_DURATION_MS;
+    while (combinationIndex < combinations.length && performance.now() < deadline) {
+      const combination = combinations[combinationIndex];
+      trials.push(runTrial(options, combination, trials.length));
+
+      let result = null;
+      if (trials.length === options.runsPerCombination) {
+        result = summarizeTrials(combination, trials);
+        combinationIndex++;
+        trials = [];
+      }
+
+      const completedRuns = combinationIndex * options.runsPerCombination + trials.length;
+      post({ type: 'progress', completedRuns, totalRuns, result });
+    }
+
+    if (combinationIndex < combinations.length) {
+      setTimeout(slice, 0);
+    } else {
+      sweepToken++;
+      post({ type: 'done', cancelled: false });
+    }
+  };
+
+  setTimeout(slice, 0);
+}
+
+scope.addEventListener('message', (event) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'start':
+        startSweep(request.options);
+        break;
+
+      case 'cancel':
+        sweepToken++;
+        post({ type: 'done', cancelled: true });
+        break;
+    }
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+});
@@ -0,0 +1,36 @@
+import type { SweepWorkerRequest, SweepWorkerResponse } from './WorkerProtocol';
+
+type SweepStartOptions = Extract<SweepWorkerRequest, { type: 'start' }>['options'];
+
+// Main-thread handle to a parameter sweep running inside a Web Worker
+export class ParameterSweepRunner {
+  private worker: Worker;
+
+  constructor(onMessage: (message: SweepWorkerResponse) => void) {
+    this.worker = new Worker(new URL('./ParameterSweep.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker.addEventListener('message', (event: MessageEvent<SweepWorkerResponse>) => {
+      onMessage(event.data);
+    });
+    this.worker.addEventListener('error', (event) => {
+      onMessage({ type: 'error', message: event.message });
+    });
+  }
+
+  private post(request: SweepWorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  start(options: SweepStartOptions): void {
+    this.post({ type: 'start', options });
+  }
+
+  cancel(): void {
+    this.post({ type: 'cancel' });
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+  }
+}
@@ -0,0 +1,218 @@
+import type { Individual } from './GeneticAlgorithm';
+import { describeSecondObjective } from './MultiObjective';
+import type { SecondObjective } from './MultiObjective';
+
+interface ScatterPoint {
+  score: number;
+  second: number;
+  onFront: boolean;
+}
+
+// Target score against the second objective for every distinct string, with the Pareto front
+// highlighted and joined up
+export class ParetoChart {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private emptyMessage: HTMLElement;
+  private objective: SecondObjective = 'none';
+  private points: ScatterPoint[] = [];
+  private maxFitness: number = 0;
+  private drawFrameId: number | null = null;
+
+  private readonly padding = { top: 20, right: 20, bottom: 40, left: 50 };
+  private readonly gridColor = 'rgba(255, 255, 255, 0.1)';
+  private readonly textColor = 'rgba(255, 255, 255, 0.6)';
+  private readonly pointColor = 'rgba(100, 108, 255, 0.5)';
+  private readonly frontColor = '#4caf50';
+
+  constructor(canvasId: string, emptyMessageId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    this.emptyMessage = document.getElementById(emptyMessageId) as HTMLElement;
+
+    if (!this.canvas) {
+      throw new Error(`Canvas element not found: ${canvasId}`);
+    }
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get 2D context from canvas');
+    }
+    this.ctx = ctx;
+
+    this.setupCanvas();
+    window.addEventListener('resize', () => this.setupCanvas());
+  }
+
+  private setupCanvas(): void {
+    const container = this.canvas.parentElement;
+    if (!container) return;
+
+    const rect = container.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+
+    this.canvas.width = rect.width * dpr;
+    this.canvas.height = rect.height * dpr;
+    this.canvas.style.width = `${rect.width}px`;
+    this.canvas.style.height = `${rect.height}px`;
+
+    this.ctx.scale(dpr, dpr);
+    this.draw();
+  }
+
+  // The panel starts hidden, so the canvas is sized again once it is laid out
+  public reset(objective: SecondObjective): void {
+    this.objective = objective;
+    this.points = [];
+    this.canvas.classList.remove('active');
+    this.emptyMessage.classList.remove('hidden');
+    this.setupCanvas();
+  }
+
+  public setPopulation(population: readonly Individual[], maxFitness: number): void {
+    // Copies of a string share a point, so only distinct strings are plotted. The worker has
+    // already ranked the population into fronts.
+    const distinct = new Map<string, ScatterPoint>();
+    for (const individual of population) {
+      if (individual.objectives) {
+        distinct.set(individual.dna, {
+          score: individual.objectives[0],
+          second: individual.objectives[1],
+          onFront: individual.paretoFront === 0,
+        });
+      }
+    }
+    this.points = [...distinct.values()];
+    this.maxFitness = maxFitness;
+
+    if (this.points.length > 0) {
+      this.canvas.classList.add('active');
+      this.emptyMessage.classList.add('hidden');
+    }
+    this.scheduleDraw();
+  }
+
+  // Population updates can arrive every frame during fast runs; draw only the latest state
+  private scheduleDraw(): void {
+    if (this.drawFrameId !== null) return;
+
+    this.drawFrameId = requestAnimationFrame(() => {
+      this.drawFrameId = null;
+      this.draw();
+    });
+  }
+
+  private draw(): void {
+    const rect = this.canvas.parentElement?.getBoundingClientRect();
+    if (!rect) return;
+
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+    if (this.points.length === 0) return;
+
+    const chartWidth = rect.width - this.padding.left - this.padding.right;
+    const chartHeight = rect.height - this.padding.top - this.padding.bottom;
+    if (chartWidth <= 0 || chartHeight <= 0) return;
+
+    // The second objective has no fixed maximum, so its axis follows the largest value present
+    const maxScore = this.maxFitness || 1;
+    const maxSecond = Math.max(1, ...this.points.map((point) => point.second));
+    this.drawGrid(chartWidth, chartHeight, maxScore, maxSecond);
+
+    const xFor = (score: number) => this.padding.left + (score / maxScore) * chartWidth;
+    const yFor = (second: number) =>
+      this.padding.top + chartHeight - (second / maxSecond) * chartHeight;
+
+    this.ctx.fillStyle = this.pointColor;
+    for (const point of this.points) {
+      if (point.onFront) continue;
+      this.ctx.beginPath();
+      this.ctx.arc(xFor(point.score), yFor(point.second), 3, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+
+    const front = this.points
+      .filter((point) => point.onFront)
+      .sort((a, b) => a.score - b.score || a.second - b.second);
+    this.ctx.strokeStyle = this.frontColor;
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    front.forEach((point, index) => {
+      if (index === 0) {
+        this.ctx.moveTo(xFor(point.score), yFor(point.second));
+      } else {
+        this.ctx.lineTo(xFor(point.score), yFor(point.second));
+      }
+    });
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = this.frontColor;
+    for (const point of front) {
+      this.ctx.beginPath();
+      this.ctx.arc(xFor(point.score), yFor(point.second), 4, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+  }
+
+  private drawGrid(
+    chartWidth: number,
+    chartHeight: number,
+    maxScore: number,
+    maxSecond: number,
+  ): void {
+    this.ctx.strokeStyle = this.gridColor;
+    this.ctx.lineWidth = 1;
+    this.ctx.font = '12px Inter, sans-serif';
+    this.ctx.fillStyle = this.textColor;
+
+    const steps = 5;
+    const label = (max: number, value: number) =>
+      Number.isInteger(max) && max >= steps ? Math.round(value).toString() : value.toFixed(1);
+
+    for (let i = 0; i <= steps; i++) {
+      const y = this.padding.top + (chartHeight * i) / steps;
+      this.ctx.beginPath();
+      this.ctx.moveTo(this.padding.left, y);
+      this.ctx.lineTo(this.padding.left + chartWidth, y);
+      this.ctx.stroke();
+
+      this.ctx.textAlign = 'right';
+      this.ctx.textBaseline = 'middle';
+      this.ctx.fillText(
+        label(maxSecond, maxSecond - (maxSecond * i) / steps),
+        this.padding.left - 10,
+        y,
+      );
+    }
+
+    for (let i = 0; i <= steps; i++) {
+      const x = this.padding.left + (chartWidth * i) / steps;
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, this.padding.top);
+      this.ctx.lineTo(x, this.padding.top + chartHeight);
+      this.ctx.stroke();
+
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText(
+        label(maxScore, (maxScore * i) / steps),
+        x,
+        this.padding.top + chartHeight + 10,
+      );
+    }
+
+    const { label: secondLabel, minimize } = describeSecondObjective(this.objective);
+    this.ctx.font = 'bold 12px Inter, sans-serif';
+    this.ctx.save();
+    this.ctx.translate(15, this.padding.top + chartHeight / 2);
+    this.ctx.rotate(-Math.PI / 2);
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(`${secondLabel} (${minimize ? 'lower' : 'higher'} is better)`, 0, 0);
+    this.ctx.restore();
+
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(
+      'Target score',
+      this.padding.left + chartWidth / 2,
+      this.padding.top + chartHeight + 30,
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import type { RandomNumberGenerator } from './Random';
+
+// Populations up to this size compare every pair; larger ones compare a fixed number of random pairs
+const EXACT_PAIR_LIMIT = 40;
+const SAMPLED_PAIRS = 500;
+
+export interface FitnessDistribution {
+  min: number;
+  lowerQuartile: number;
+  median: number;
+  upperQuartile: number;
+  standardDeviation: number;
+}
+
+// Entropy in bits of a set of symbol counts
+export function shannonEntropy(counts: Iterable<number>, total: number): number {
+  let entropy = 0;
+  for (const count of counts) {
+    if (count > 0) {
+      const p = count / total;
+      entropy -= p * Math.log2(p);
+    }
+  }
+  return entropy;
+}
+
+// Positions past the end of the shorter string count as differences
+export function hammingDistance(a: readonly string[], b: readonly string[]): number {
+  const length = Math.max(a.length, b.length);
+  let distance = 0;
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) distance++;
+  }
+  return distance;
+}
+
+// Mean distance between two members of the population, in characters
+export function meanHammingDistance(
+  genomes: readonly string[][],
+  rng: RandomNumberGenerator,
+): number {
+  const n = genomes.length;
+  if (n < 2) return 0;
+
+  let total = 0;
+  let pairs = 0;
+  if (n <= EXACT_PAIR_LIMIT) {
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        total += hammingDistance(genomes[i], genomes[j]);
+        pairs++;
+      }
+    }
+  } else {
+    for (; pairs < SAMPLED_PAIRS; pairs++) {
+      const i = Math.floor(rng.next() * n);
+      // Pick from the other n - 1 members so a string is never compared with itself
+      let j = Math.floor(rng.next() * (n - 1));
+      if (j >= i) j++;
+      total += hammingDistance(genomes[i], genomes[j]);
+    }
+  }
+  return total / pairs;
+}
+
+// Average over the first `length` positions; a string too short for a position counts as a symbol
+export function meanLocusEntropy(genomes: readonly string[][], length: number): number {
+  if (genomes.length === 0 || length === 0) return 0;
+
+  let total = 0;
+  for (let i = 0; i < length; i++) {
+    const counts = new Map<string | undefined, number>();
+    for (const genes of genomes) {
+      counts.set(genes[i], (counts.get(genes[i]) ?? 0) + 1);
+    }
+    total += shannonEntropy(counts.values(), genomes.length);
+  }
+  return total / length;
+}
+
+// Linear interpolation between the closest ranks of an ascending list
+function quantile(sorted: readonly number[], q: number): number {
+  const index = (sorted.length - 1) * q;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+export function describeFitness(values: readonly number[], mean: number): FitnessDistribution {
+  if (values.length === 0) {
+    return { min: 0, lowerQuartile: 0, median: 0, upperQuartile: 0, standardDeviation: 0 };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+  return {
+    min: sorted[0],
+    lowerQuartile: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    upperQuartile: quantile(sorted, 0.75),
+    standardDeviation: Math.sqrt(variance),
+  };
+}
@@ -0,0 +1,40 @@
+export interface RandomNumberGenerator {
+  // Returns a float in the range [0, 1)
+  next(): number;
+  // Internal state, so a saved run can continue the exact same random sequence
+  getState(): number;
+  setState(state: number): void;
+}
+
+export type RandomNumberGeneratorFactory = (seed: number) => RandomNumberGenerator;
+
+// Small, fast 32-bit PRNG. Good enough statistically for a GA and fully deterministic per seed.
+export class Mulberry32 implements RandomNumberGenerator {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state | 0;
+  }
+}
+
+export const createMulberry32: RandomNumberGeneratorFactory = (seed) => new Mulberry32(seed);
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,113 @@
+import type { GeneticAlgorithmState } from './GeneticAlgorithm';
+import type { ChartData } from './ChartController';
+
+// Bump when the format changes incompatibly; older snapshots are rejected with a clear message
+export const SNAPSHOT_VERSION = 1;
+
+const AUTOSAVE_KEY = 'genetic-string:autosave';
+
+export interface SimulationSnapshot {
+  version: number;
+  savedAt: string; // ISO 8601 timestamp
+  state: GeneticAlgorithmState;
+  chart: ChartData[];
+}
+
+export function createSnapshot(
+  state: GeneticAlgorithmState,
+  chart: ChartData[],
+): SimulationSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    savedAt: new Date().toISOString(),
+    state,
+    chart,
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Checks the structure a restored run depends on; config values are validated by the algorithm itself
+export function parseSnapshot(json: string): SimulationSnapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Snapshot is not valid JSON');
+  }
+
+  if (!isObject(data) || !isNumber(data.version)) {
+    throw new Error('File is not a simulation snapshot');
+  }
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Snapshot version ${data.version} is not supported (expected ${SNAPSHOT_VERSION})`,
+    );
+  }
+
+  const state = data.state;
+  if (
+    !isObject(state) ||
+    !isObject(state.config) ||
+    typeof state.config.target !== 'string' ||
+    !isNumber(state.generation) ||
+    !isNumber(state.generationsSinceImprovement) ||
+    !isNumber(state.hypermutationRemaining) ||
+    !isNumber(state.currentMutationRate) ||
+    !isNumber(state.rngState) ||
+    !isNumber(state.nextIndividualId) ||
+    !Array.isArray(state.bestFitnessHistory) ||
+    !state.bestFitnessHistory.every(isNumber)
+  ) {
+    throw new Error('Snapshot is missing algorithm state');
+  }
+
+  if (
+    !Array.isArray(state.population) ||
+    state.population.length === 0 ||
+    !state.population.every(
+      (individual) =>
+        isObject(individual) && typeof individual.dna === 'string' && isNumber(individual.fitness),
+    )
+  ) {
+    throw new Error('Snapshot population is empty or malformed');
+  }
+
+  if (!Array.isArray(data.chart) || !data.chart.every((point) => isObject(point))) {
+    throw new Error('Snapshot chart data is malformed');
+  }
+
+  return data as unknown as SimulationSnapshot;
+}
+
+// Storage can be full or disabled (private browsing), so autosave failures are not fatal
+export function saveAutosave(snapshot: SimulationSnapshot): boolean {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(snapshot));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function loadAutosave(): SimulationSnapshot | null {
+  try {
+    const json = localStorage.getItem(AUTOSAVE_KEY);
+    return json === null ? null : parseSnapshot(json);
+  } catch {
+    // An unreadable or outdated autosave is simply ignored
+    return null;
+  }
+}
+
+export function clearAutosave(): void {
+  try {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  } catch {
+    // Nothing to clear if storage is unavailable
+  }
+}
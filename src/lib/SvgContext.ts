@@ -0,0 +1,235 @@
+// The subset of the canvas 2D API the charts draw with, so a chart can render to SVG as well
+export type DrawingContext = Pick<
+  CanvasRenderingContext2D,
+  | 'strokeStyle'
+  | 'fillStyle'
+  | 'lineWidth'
+  | 'font'
+  | 'textAlign'
+  | 'textBaseline'
+  | 'beginPath'
+  | 'moveTo'
+  | 'lineTo'
+  | 'arc'
+  | 'rect'
+  | 'stroke'
+  | 'fill'
+  | 'clip'
+  | 'fillRect'
+  | 'clearRect'
+  | 'fillText'
+  | 'setLineDash'
+  | 'save'
+  | 'restore'
+  | 'translate'
+  | 'rotate'
+>;
+
+interface SvgState {
+  strokeStyle: string;
+  fillStyle: string;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasTextAlign;
+  textBaseline: CanvasTextBaseline;
+  lineDash: number[];
+  transform: string;
+  clipId: string | null;
+}
+
+const TEXT_ANCHORS: Record<CanvasTextAlign, string> = {
+  left: 'start',
+  start: 'start',
+  center: 'middle',
+  right: 'end',
+  end: 'end',
+};
+
+const BASELINES: Record<CanvasTextBaseline, string> = {
+  top: 'hanging',
+  hanging: 'hanging',
+  middle: 'central',
+  alphabetic: 'auto',
+  ideographic: 'ideographic',
+  bottom: 'text-after-edge',
+};
+
+const round = (value: number) => Number(value.toFixed(2)).toString();
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Records canvas drawing calls as SVG elements. Only solid colour styles are supported, and
+// transforms are limited to translate and rotate.
+export class SvgContext implements DrawingContext {
+  private state: SvgState = {
+    strokeStyle: '#000',
+    fillStyle: '#000',
+    lineWidth: 1,
+    font: '10px sans-serif',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    lineDash: [],
+    transform: '',
+    clipId: null,
+  };
+  private stack: SvgState[] = [];
+  private path: string[] = [];
+  private elements: string[] = [];
+  private definitions: string[] = [];
+  private width: number;
+  private height: number;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  get strokeStyle(): string {
+    return this.state.strokeStyle;
+  }
+  set strokeStyle(value: string | CanvasGradient | CanvasPattern) {
+    this.state.strokeStyle = String(value);
+  }
+
+  get fillStyle(): string {
+    return this.state.fillStyle;
+  }
+  set fillStyle(value: string | CanvasGradient | CanvasPattern) {
+    this.state.fillStyle = String(value);
+  }
+
+  get lineWidth(): number {
+    return this.state.lineWidth;
+  }
+  set lineWidth(value: number) {
+    this.state.lineWidth = value;
+  }
+
+  get font(): string {
+    return this.state.font;
+  }
+  set font(value: string) {
+    this.state.font = value;
+  }
+
+  get textAlign(): CanvasTextAlign {
+    return this.state.textAlign;
+  }
+  set textAlign(value: CanvasTextAlign) {
+    this.state.textAlign = value;
+  }
+
+  get textBaseline(): CanvasTextBaseline {
+    return this.state.textBaseline;
+  }
+  set textBaseline(value: CanvasTextBaseline) {
+    this.state.textBaseline = value;
+  }
+
+  beginPath(): void {
+    this.path = [];
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`M${round(x)} ${round(y)}`);
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path.push(`L${round(x)} ${round(y)}`);
+  }
+
+  // Only whole circles are drawn by the charts, so the angles are ignored
+  arc(x: number, y: number, radius: number): void {
+    const r = round(radius);
+    this.path.push(
+      `M${round(x - radius)} ${round(y)}a${r} ${r} 0 1 0 ${round(radius * 2)} 0a${r} ${r} 0 1 0 ${round(-radius * 2)} 0`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    this.path.push(`M${round(x)} ${round(y)}h${round(width)}v${round(height)}h${round(-width)}Z`);
+  }
+
+  stroke(): void {
+    if (this.path.length === 0) return;
+
+    const dash =
+      this.state.lineDash.length > 0 ? ` stroke-dasharray="${this.state.lineDash.join(' ')}"` : '';
+    this.addElement(
+      `<path d="${this.path.join('')}" fill="none" stroke="${escapeXml(this.state.strokeStyle)}" stroke-width="${this.state.lineWidth}" stroke-linejoin="round"${dash}/>`,
+    );
+  }
+
+  fill(): void {
+    if (this.path.length === 0) return;
+    this.addElement(`<path d="${this.path.join('')}" fill="${escapeXml(this.state.fillStyle)}"/>`);
+  }
+
+  clip(): void {
+    const id = `clip${this.definitions.length}`;
+    this.definitions.push(`<clipPath id="${id}"><path d="${this.path.join('')}"/></clipPath>`);
+    this.state.clipId = id;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.addElement(
+      `<rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="${escapeXml(this.state.fillStyle)}"/>`,
+    );
+  }
+
+  // Nothing has been drawn over in a fresh SVG, so clearing is a no-op
+  clearRect(): void {}
+
+  fillText(text: string, x: number, y: number): void {
+    this.addElement(
+      `<text x="${round(x)}" y="${round(y)}" fill="${escapeXml(this.state.fillStyle)}" style="font: ${escapeXml(this.state.font)}" text-anchor="${TEXT_ANCHORS[this.state.textAlign]}" dominant-baseline="${BASELINES[this.state.textBaseline]}">${escapeXml(text)}</text>`,
+    );
+  }
+
+  setLineDash(segments: number[]): void {
+    this.state.lineDash = [...segments];
+  }
+
+  save(): void {
+    this.stack.push({ ...this.state, lineDash: [...this.state.lineDash] });
+  }
+
+  restore(): void {
+    this.state = this.stack.pop() ?? this.state;
+  }
+
+  translate(x: number, y: number): void {
+    this.state.transform += ` translate(${round(x)} ${round(y)})`;
+  }
+
+  rotate(angle: number): void {
+    this.state.transform += ` rotate(${round((angle * 180) / Math.PI)})`;
+  }
+
+  private addElement(element: string): void {
+    // Wrap rather than annotate, so transforms never move the clip region
+    let wrapped = element;
+    if (this.state.transform) {
+      wrapped = `<g transform="${this.state.transform.trim()}">${wrapped}</g>`;
+    }
+    if (this.state.clipId) {
+      wrapped = `<g clip-path="url(#${this.state.clipId})">${wrapped}</g>`;
+    }
+    this.elements.push(wrapped);
+  }
+
+  toString(): string {
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${round(this.width)}" height="${round(this.height)}" viewBox="0 0 ${round(this.width)} ${round(this.height)}">`,
+      `<defs>${this.definitions.join('')}</defs>`,
+      ...this.elements,
+      '</svg>',
+    ].join('\n');
+  }
+}
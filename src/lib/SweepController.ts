@@ -0,0 +1,403 @@
+import { GeneticAlgorithm } from './GeneticAlgorithm';
+import type { GeneticAlgorithmConfig, SelectionStrategy } from './GeneticAlgorithm';
+import { buildCombinations, MAX_COMBINATIONS } from './ParameterSweep';
+import type { NumberRange, SweepResult } from './ParameterSweep';
+import { ParameterSweepRunner } from './ParameterSweepRunner';
+import { SweepHeatmap } from './SweepHeatmap';
+import type { SweepMetric, SweepParameter } from './SweepHeatmap';
+import type { SweepWorkerResponse } from './WorkerProtocol';
+import { generateSeed } from './Random';
+import { toCsv } from './Csv';
+import { downloadFile } from './Download';
+
+type SortKey =
+  | 'selectionStrategy'
+  | 'populationSize'
+  | 'survivalRate'
+  | 'mutationRate'
+  | 'successRate'
+  | 'generationsMean'
+  | 'generationsMedian'
+  | 'generationsStdev'
+  | 'wallClockMean';
+
+// Flattened view of a result, shared by the table sort and the CSV export
+interface SweepRow {
+  selectionStrategy: SelectionStrategy;
+  populationSize: number;
+  survivalRate: number;
+  mutationRate: number;
+  runs: number;
+  successes: number;
+  successRate: number;
+  generationsMean: number | null;
+  generationsMedian: number | null;
+  generationsStdev: number | null;
+  wallClockMean: number;
+}
+
+// Drives the parameter sweep section; the base configuration comes from the main form
+export class SweepController {
+  private runner: ParameterSweepRunner;
+  private heatmap: SweepHeatmap;
+  private getBaseConfig: () => GeneticAlgorithmConfig;
+  private results: SweepResult[] = [];
+  private isRunning = false;
+  private sortKey: SortKey = 'successRate';
+  private sortDescending = true;
+  private sweepSeed = 0;
+
+  private popMinInput: HTMLInputElement;
+  private popMaxInput: HTMLInputElement;
+  private popStepInput: HTMLInputElement;
+  private survivalMinInput: HTMLInputElement;
+  private survivalMaxInput: HTMLInputElement;
+  private survivalStepInput: HTMLInputElement;
+  private mutationMinInput: HTMLInputElement;
+  private mutationMaxInput: HTMLInputElement;
+  private mutationStepInput: HTMLInputElement;
+  private runsInput: HTMLInputElement;
+  private maxGenerationsInput: HTMLInputElement;
+  private seedInput: HTMLInputElement;
+  private strategyCheckboxes: HTMLInputElement[];
+  private heatmapXSelect: HTMLSelectElement;
+  private heatmapYSelect: HTMLSelectElement;
+  private heatmapMetricSelect: HTMLSelectElement;
+
+  private runButton: HTMLButtonElement;
+  private cancelButton: HTMLButtonElement;
+  private exportCsvButton: HTMLButtonElement;
+  private exportJsonButton: HTMLButtonElement;
+
+  private progressBar: HTMLProgressElement;
+  private statusDisplay: HTMLElement;
+  private table: HTMLTableElement;
+  private tableBody: HTMLTableSectionElement;
+
+  constructor(getBaseConfig: () => GeneticAlgorithmConfig) {
+    this.getBaseConfig = getBaseConfig;
+
+    this.popMinInput = this.getElement<HTMLInputElement>('#sweepPopMin');
+    this.popMaxInput = this.getElement<HTMLInputElement>('#sweepPopMax');
+    this.popStepInput = this.getElement<HTMLInputElement>('#sweepPopStep');
+    this.survivalMinInput = this.getElement<HTMLInputElement>('#sweepSurvivalMin');
+    this.survivalMaxInput = this.getElement<HTMLInputElement>('#sweepSurvivalMax');
+    this.survivalStepInput = this.getElement<HTMLInputElement>('#sweepSurvivalStep');
+    this.mutationMinInput = this.getElement<HTMLInputElement>('#sweepMutationMin');
+    this.mutationMaxInput = this.getElement<HTMLInputElement>('#sweepMutationMax');
+    this.mutationStepInput = this.getElement<HTMLInputElement>('#sweepMutationStep');
+    this.runsInput = this.getElement<HTMLInputElement>('#sweepRuns');
+    this.maxGenerationsInput = this.getElement<HTMLInputElement>('#sweepMaxGenerations');
+    this.seedInput = this.getElement<HTMLInputElement>('#sweepSeed');
+    this.strategyCheckboxes = Array.from(
+      document.querySelectorAll<HTMLInputElement>('input[name="sweepStrategy"]'),
+    );
+    this.heatmapXSelect = this.getElement<HTMLSelectElement>('#sweepHeatmapX');
+    this.heatmapYSelect = this.getElement<HTMLSelectElement>('#sweepHeatmapY');
+    this.heatmapMetricSelect = this.getElement<HTMLSelectElement>('#sweepHeatmapMetric');
+
+    this.runButton = this.getElement<HTMLButtonElement>('#sweepRunBtn');
+    this.cancelButton = this.getElement<HTMLButtonElement>('#sweepCancelBtn');
+    this.exportCsvButton = this.getElement<HTMLButtonElement>('#sweepExportCsvBtn');
+    this.exportJsonButton = this.getElement<HTMLButtonElement>('#sweepExportJsonBtn');
+
+    this.progressBar = this.getElement<HTMLProgressElement>('#sweepProgress');
+    this.statusDisplay = this.getElement('#sweepStatus');
+    this.table = this.getElement<HTMLTableElement>('#sweepResults');
+    this.tableBody = this.table.tBodies[0];
+
+    this.heatmap = new SweepHeatmap('sweepHeatmap');
+    this.runner = new ParameterSweepRunner((message) => this.handleWorkerMessage(message));
+
+    this.attachEventListeners();
+    this.updateHeatmapAxes();
+    this.updateButtonStates();
+  }
+
+  private getElement<T extends HTMLElement>(selector: string): T {
+    const element = document.querySelector<T>(selector);
+    if (!element) {
+      throw new Error(`Element not found: ${selector}`);
+    }
+    return element;
+  }
+
+  private attachEventListeners(): void {
+    this.runButton.addEventListener('click', () => this.handleRun());
+    this.cancelButton.addEventListener('click', () => this.runner.cancel());
+    this.exportCsvButton.addEventListener('click', () => this.handleExport('csv'));
+    this.exportJsonButton.addEventListener('click', () => this.handleExport('json'));
+
+    for (const select of [this.heatmapXSelect, this.heatmapYSelect, this.heatmapMetricSelect]) {
+      select.addEventListener('change', () => this.updateHeatmapAxes());
+    }
+
+    this.table.tHead?.addEventListener('click', (event) => {
+      const header = (event.target as HTMLElement).closest<HTMLElement>('th[data-sort]');
+      if (!header) return;
+
+      const key = header.dataset.sort as SortKey;
+      // Clicking the active column flips the order, a new column starts descending
+      this.sortDescending = key === this.sortKey ? !this.sortDescending : true;
+      this.sortKey = key;
+      this.renderTable();
+    });
+  }
+
+  private readRange(
+    min: HTMLInputElement,
+    max: HTMLInputElement,
+    step: HTMLInputElement,
+  ): NumberRange {
+    return {
+      min: parseFloat(min.value),
+      max: parseFloat(max.value),
+      step: parseFloat(step.value) || 0,
+    };
+  }
+
+  private handleRun(): void {
+    const baseConfig = this.getBaseConfig();
+    const ranges = {
+      populationSize: this.readRange(this.popMinInput, this.popMaxInput, this.popStepInput),
+      survivalRate: this.readRange(
+        this.survivalMinInput,
+        this.survivalMaxInput,
+        this.survivalStepInput,
+      ),
+      mutationRate: this.readRange(
+        this.mutationMinInput,
+        this.mutationMaxInput,
+        this.mutationStepInput,
+      ),
+      selectionStrategies: this.strategyCheckboxes
+        .filter((checkbox) => checkbox.checked)
+        .map((checkbox) => checkbox.value as SelectionStrategy),
+    };
+    const runsPerCombination = parseInt(this.runsInput.value);
+    const maxGenerations = parseInt(this.maxGenerationsInput.value);
+
+    // Validation
+    if (baseConfig.interactive) {
+      this.updateStatus(
+        'Interactive runs wait for a person to rate them, so they cannot be swept',
+        'error',
+      );
+      return;
+    }
+
+    // Runs are measured by the generation they reach the target, which these modes never do
+    if (baseConfig.targetMode === 'cycle' || baseConfig.targetMode === 'drift') {
+      this.updateStatus(
+        'A moving target is never reached for good, so cycling and drifting runs cannot be swept',
+        'error',
+      );
+      return;
+    }
+
+    if (baseConfig.secondObjective !== 'none') {
+      this.updateStatus(
+        'Multi-objective runs have no single target to reach, so they cannot be swept',
+        'error',
+      );
+      return;
+    }
+
+    if (!baseConfig.target) {
+      this.updateStatus('Please enter a target string in the configuration', 'error');
+      return;
+    }
+
+    const bounds = [ranges.populationSize, ranges.survivalRate, ranges.mutationRate];
+    if (bounds.some((range) => isNaN(range.min) || isNaN(range.max))) {
+      this.updateStatus('Please enter a minimum and maximum for every range', 'error');
+      return;
+    }
+
+    if (ranges.populationSize.min < 2) {
+      this.updateStatus('Population size must be at least 2', 'error');
+      return;
+    }
+
+    if (ranges.survivalRate.min < 1 || ranges.survivalRate.max > 100) {
+      this.updateStatus('Survival percentage must be between 1 and 100', 'error');
+      return;
+    }
+
+    if (ranges.mutationRate.min < 0 || ranges.mutationRate.max > 100) {
+      this.updateStatus('Mutation percentage must be between 0 and 100', 'error');
+      return;
+    }
+
+    if (ranges.selectionStrategies.length === 0) {
+      this.updateStatus('Select at least one selection strategy', 'error');
+      return;
+    }
+
+    if (isNaN(runsPerCombination) || runsPerCombination < 1) {
+      this.updateStatus('Runs per combination must be at least 1', 'error');
+      return;
+    }
+
+    if (isNaN(maxGenerations) || maxGenerations < 1) {
+      this.updateStatus('Generation cap must be at least 1', 'error');
+      return;
+    }
+
+    const combinations = buildCombinations(ranges).length;
+    if (combinations > MAX_COMBINATIONS) {
+      this.updateStatus(
+        `${combinations} combinations is too many - increase the step sizes to stay under ${MAX_COMBINATIONS}`,
+        'error',
+      );
+      return;
+    }
+
+    try {
+      new GeneticAlgorithm(baseConfig).validateTargetCharacters();
+    } catch (e) {
+      this.updateStatus(e instanceof Error ? e.message : String(e), 'error');
+      return;
+    }
+
+    this.sweepSeed = this.seedInput.value === '' ? generateSeed() : parseInt(this.seedInput.value);
+    this.results = [];
+    this.isRunning = true;
+    this.progressBar.value = 0;
+    this.renderResults();
+    this.updateButtonStates();
+    this.updateStatus(
+      `Running ${combinations} combinations × ${runsPerCombination} runs (seed ${this.sweepSeed})...`,
+      'running',
+    );
+
+    this.runner.start({
+      baseConfig,
+      ranges,
+      runsPerCombination,
+      maxGenerations,
+      seed: this.sweepSeed,
+    });
+  }
+
+  private handleWorkerMessage(message: SweepWorkerResponse): void {
+    switch (message.type) {
+      case 'progress':
+        this.progressBar.value = message.completedRuns / message.totalRuns;
+        if (message.result) {
+          this.results.push(message.result);
+          this.renderResults();
+        }
+        break;
+
+      case 'done':
+        if (!this.isRunning) return;
+        this.isRunning = false;
+        this.updateButtonStates();
+        this.updateStatus(
+          message.cancelled
+            ? `Sweep cancelled after ${this.results.length} combinations`
+            : `Sweep complete: ${this.results.length} combinations (seed ${this.sweepSeed})`,
+          message.cancelled ? 'info' : 'success',
+        );
+        break;
+
+      case 'error':
+        this.isRunning = false;
+        this.updateButtonStates();
+        this.updateStatus(`Sweep error: ${message.message}`, 'error');
+        break;
+    }
+  }
+
+  private handleExport(format: 'csv' | 'json'): void {
+    const filename = `parameter-sweep-${this.sweepSeed}.${format}`;
+    if (format === 'csv') {
+      downloadFile(filename, toCsv(this.results.map((result) => this.toRow(result))), 'text/csv');
+    } else {
+      const content = JSON.stringify({ seed: this.sweepSeed, results: this.results }, null, 2);
+      downloadFile(filename, content, 'application/json');
+    }
+  }
+
+  private updateHeatmapAxes(): void {
+    this.heatmap.setAxes(
+      this.heatmapXSelect.value as SweepParameter,
+      this.heatmapYSelect.value as SweepParameter,
+      this.heatmapMetricSelect.value as SweepMetric,
+    );
+  }
+
+  private toRow(result: SweepResult): SweepRow {
+    const round = (value: number) => Number(value.toFixed(2));
+    return {
+      selectionStrategy: result.selectionStrategy,
+      populationSize: result.populationSize,
+      survivalRate: result.survivalRate,
+      mutationRate: result.mutationRate,
+      runs: result.runs,
+      successes: result.successes,
+      successRate: round(result.successRate),
+      generationsMean: result.generations ? round(result.generations.mean) : null,
+      generationsMedian: result.generations ? round(result.generations.median) : null,
+      generationsStdev: result.generations ? round(result.generations.stdev) : null,
+      wallClockMean: round(result.wallClockMs.mean),
+    };
+  }
+
+  private renderResults(): void {
+    this.heatmap.setResults(this.results);
+    this.renderTable();
+  }
+
+  private renderTable(): void {
+    const rows = this.results.map((result) => this.toRow(result));
+    const direction = this.sortDescending ? -1 : 1;
+    rows.sort((a, b) => {
+      const valueA = a[this.sortKey];
+      const valueB = b[this.sortKey];
+      // Combinations that never solved sort last in either direction
+      if (valueA === null) return valueB === null ? 0 : 1;
+      if (valueB === null) return -1;
+      if (typeof valueA === 'string') return direction * valueA.localeCompare(String(valueB));
+      return direction * (valueA - (valueB as number));
+    });
+
+    const format = (value: number | null) => (value === null ? '-' : value.toString());
+    this.tableBody.innerHTML = rows
+      .map(
+        (row) => `
+        <tr>
+          <td>${row.selectionStrategy}</td>
+          <td>${row.populationSize}</td>
+          <td>${row.survivalRate}</td>
+          <td>${row.mutationRate}</td>
+          <td>${row.successes}/${row.runs} (${Math.round(row.successRate * 100)}%)</td>
+          <td>${format(row.generationsMean)}</td>
+          <td>${format(row.generationsMedian)}</td>
+          <td>${format(row.generationsStdev)}</td>
+          <td>${row.wallClockMean} ms</td>
+        </tr>
+      `,
+      )
+      .join('');
+
+    for (const header of this.table.querySelectorAll<HTMLElement>('th[data-sort]')) {
+      const active = header.dataset.sort === this.sortKey;
+      header.classList.toggle('sorted-asc', active && !this.sortDescending);
+      header.classList.toggle('sorted-desc', active && this.sortDescending);
+    }
+  }
+
+  private updateStatus(message: string, type: 'success' | 'error' | 'info' | 'running'): void {
+    this.statusDisplay.textContent = message;
+    this.statusDisplay.className = `status ${type}`;
+  }
+
+  private updateButtonStates(): void {
+    this.runButton.disabled = this.isRunning;
+    this.cancelButton.disabled = !this.isRunning;
+    this.exportCsvButton.disabled = this.isRunning || this.results.length === 0;
+    this.exportJsonButton.disabled = this.isRunning || this.results.length === 0;
+  }
+}
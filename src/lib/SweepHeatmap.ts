@@ -0,0 +1,199 @@
+import type { SweepResult } from './ParameterSweep';
+
+export type SweepParameter =
+  'populationSize' | 'survivalRate' | 'mutationRate' | 'selectionStrategy';
+export type SweepMetric = 'successRate' | 'generations' | 'wallClockMs';
+
+interface HeatmapCell {
+  total: number;
+  count: number;
+}
+
+// Grid of one sweep metric over two parameters, averaged across the remaining ones
+export class SweepHeatmap {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private results: SweepResult[] = [];
+  private xParameter: SweepParameter = 'populationSize';
+  private yParameter: SweepParameter = 'mutationRate';
+  private metric: SweepMetric = 'successRate';
+
+  private readonly padding = { top: 20, right: 20, bottom: 50, left: 90 };
+  private readonly textColor = 'rgba(255, 255, 255, 0.6)';
+  private readonly emptyColor = 'rgba(255, 255, 255, 0.05)';
+
+  constructor(canvasId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    if (!this.canvas) {
+      throw new Error(`Canvas element not found: ${canvasId}`);
+    }
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get 2D context from canvas');
+    }
+    this.ctx = ctx;
+
+    this.setupCanvas();
+    window.addEventListener('resize', () => this.setupCanvas());
+  }
+
+  private setupCanvas(): void {
+    const container = this.canvas.parentElement;
+    if (!container) return;
+
+    const rect = container.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+
+    this.canvas.width = rect.width * dpr;
+    this.canvas.height = rect.height * dpr;
+    this.canvas.style.width = `${rect.width}px`;
+    this.canvas.style.height = `${rect.height}px`;
+
+    this.ctx.scale(dpr, dpr);
+    this.draw();
+  }
+
+  public setResults(results: SweepResult[]): void {
+    this.results = results;
+    this.draw();
+  }
+
+  public setAxes(
+    xParameter: SweepParameter,
+    yParameter: SweepParameter,
+    metric: SweepMetric,
+  ): void {
+    this.xParameter = xParameter;
+    this.yParameter = yParameter;
+    this.metric = metric;
+    this.draw();
+  }
+
+  private metricValue(result: SweepResult): number | null {
+    switch (this.metric) {
+      case 'successRate':
+        return result.successRate * 100;
+      case 'generations':
+        return result.generations?.mean ?? null;
+      case 'wallClockMs':
+        return result.wallClockMs.mean;
+    }
+  }
+
+  private axisValues(parameter: SweepParameter): (string | number)[] {
+    const values = [...new Set(this.results.map((result) => result[parameter]))];
+    return parameter === 'selectionStrategy' ? values : values.sort((a, b) => +a - +b);
+  }
+
+  private draw(): void {
+    const width = this.canvas.width / (window.devicePixelRatio || 1);
+    const height = this.canvas.height / (window.devicePixelRatio || 1);
+    this.ctx.clearRect(0, 0, width, height);
+    if (this.results.length === 0) return;
+
+    const xValues = this.axisValues(this.xParameter);
+    const yValues = this.axisValues(this.yParameter);
+
+    // Average the metric over every result that falls into the same cell
+    const cells = new Map<string, HeatmapCell>();
+    for (const result of this.results) {
+      const value = this.metricValue(result);
+      if (value === null) continue;
+
+      const key = `${result[this.xParameter]}|${result[this.yParameter]}`;
+      const cell = cells.get(key) ?? { total: 0, count: 0 };
+      cell.total += value;
+      cell.count++;
+      cells.set(key, cell);
+    }
+
+    const averages = [...cells.values()].map((cell) => cell.total / cell.count);
+    const min = averages.length > 0 ? Math.min(...averages) : 0;
+    const max = averages.length > 0 ? Math.max(...averages) : 0;
+    // Fewer generations and less time are better, so flip the scale for those metrics
+    const higherIsBetter = this.metric === 'successRate';
+
+    const plotWidth = width - this.padding.left - this.padding.right;
+    const plotHeight = height - this.padding.top - this.padding.bottom;
+    const cellWidth = plotWidth / xValues.length;
+    const cellHeight = plotHeight / yValues.length;
+
+    this.ctx.font = '11px sans-serif';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+
+    yValues.forEach((yValue, row) => {
+      xValues.forEach((xValue, column) => {
+        const x = this.padding.left + column * cellWidth;
+        // First row at the bottom, like a chart
+        const y = this.padding.top + (yValues.length - 1 - row) * cellHeight;
+        const cell = cells.get(`${xValue}|${yValue}`);
+
+        if (!cell) {
+          this.ctx.fillStyle = this.emptyColor;
+          this.ctx.fillRect(x + 1, y + 1, cellWidth - 2, cellHeight - 2);
+          return;
+        }
+
+        const average = cell.total / cell.count;
+        const ratio = max > min ? (average - min) / (max - min) : 1;
+        this.ctx.fillStyle = this.colorFor(higherIsBetter ? ratio : 1 - ratio);
+        this.ctx.fillRect(x + 1, y + 1, cellWidth - 2, cellHeight - 2);
+
+        if (cellWidth >= 36 && cellHeight >= 16) {
+          this.ctx.fillStyle = '#fff';
+          this.ctx.fillText(this.formatValue(average), x + cellWidth / 2, y + cellHeight / 2);
+        }
+      });
+    });
+
+    // Axis labels
+    this.ctx.fillStyle = this.textColor;
+    xValues.forEach((xValue, column) => {
+      const x = this.padding.left + (column + 0.5) * cellWidth;
+      this.ctx.fillText(String(xValue), x, height - this.padding.bottom + 12);
+    });
+    this.ctx.fillText(
+      this.parameterLabel(this.xParameter),
+      this.padding.left + plotWidth / 2,
+      height - 12,
+    );
+
+    this.ctx.textAlign = 'right';
+    yValues.forEach((yValue, row) => {
+      const y = this.padding.top + (yValues.length - 0.5 - row) * cellHeight;
+      this.ctx.fillText(String(yValue), this.padding.left - 6, y);
+    });
+
+    this.ctx.save();
+    this.ctx.translate(12, this.padding.top + plotHeight / 2);
+    this.ctx.rotate(-Math.PI / 2);
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(this.parameterLabel(this.yParameter), 0, 0);
+    this.ctx.restore();
+  }
+
+  // Red (worst) through yellow to green (best)
+  private colorFor(ratio: number): string {
+    return `hsl(${Math.round(ratio * 120)}, 65%, 40%)`;
+  }
+
+  private formatValue(value: number): string {
+    if (this.metric === 'successRate') return `${Math.round(value)}%`;
+    return value >= 100 ? Math.round(value).toString() : value.toFixed(1);
+  }
+
+  private parameterLabel(parameter: SweepParameter): string {
+    switch (parameter) {
+      case 'populationSize':
+        return 'Population Size';
+      case 'survivalRate':
+        return 'Survival %';
+      case 'mutationRate':
+        return 'Mutation %';
+      case 'selectionStrategy':
+        return 'Selection Strategy';
+    }
+  }
+}
@@ -1,29 +1,158 @@
-import { GeneticAlgorithm } from './GeneticAlgorithm';
+import { GeneticAlgorithm, MAX_RATING } from './GeneticAlgorithm';
 import type {
   GeneticAlgorithmConfig,
+  GeneticAlgorithmState,
   GenerationStats,
+  Individual,
   CharacterSet,
   SelectionStrategy,
+  CrossoverStrategy,
+  StagnationResponse,
+  MigrationTopology,
+  IslandSettings,
+  NichingStrategy,
+  TargetMode,
+  TargetChangeTrigger,
+  SecondObjective,
+  Rating,
 } from './GeneticAlgorithm';
+import type { FitnessStrategy } from './FitnessFunctions';
+import { splitCodePoints } from './CharacterSets';
 import { ChartController } from './ChartController';
+import type { ChartData, ChartLine, DiversitySeries } from './ChartController';
+import { ConvergenceHeatmap } from './ConvergenceHeatmap';
+import { ParetoChart } from './ParetoChart';
+import { describeSecondObjective } from './MultiObjective';
+import type { ConvergenceMetric } from './ConvergenceHeatmap';
+import { GeneticAlgorithmRunner } from './GeneticAlgorithmRunner';
+import { SweepController } from './SweepController';
+import { ComparisonController } from './ComparisonController';
+import {
+  createSnapshot,
+  parseSnapshot,
+  saveAutosave,
+  loadAutosave,
+  clearAutosave,
+} from './Snapshot';
+import type { SimulationSnapshot } from './Snapshot';
+import { downloadFile } from './Download';
+import { toCsv } from './Csv';
+import type { HistoryFrame, HistoryOptions } from './HistoryRecorder';
+import type { LineageNode } from './LineageTracker';
+import type { LocusStats } from './LocusStatistics';
+import type { RunEndReason, SessionOptions, WorkerConfig, WorkerResponse } from './WorkerProtocol';
 import { analytics } from '../analytics';
 
+// Redrawing thousands of population cards is the slowest part of a frame, so cap it while running
+const POPULATION_RENDER_INTERVAL_MS = 250;
+// How often a running simulation is saved to localStorage
+const AUTOSAVE_INTERVAL_MS = 5000;
+// Matches the max of the island count input; more islands leave too few individuals per island
+const MAX_ISLANDS = 8;
+
+type SnapshotPurpose = 'export' | 'autosave';
+
+interface Session {
+  config: WorkerConfig;
+  stats: GenerationStats;
+  population: Individual[];
+  options: SessionOptions;
+}
+
 export class UIController {
-  private ga: GeneticAlgorithm | null = null;
+  private runner: GeneticAlgorithmRunner;
+  private session: Session | null = null;
   private isRunning: boolean = false;
-  private intervalId: number | null = null;
+  private renderFrameId: number | null = null;
+  private populationDirty: boolean = false;
+  private lastPopulationRender: number = 0;
   private chart: ChartController;
+  private convergenceHeatmap: ConvergenceHeatmap;
+  private paretoChart: ParetoChart;
+  // The worker answers snapshot requests in order, so this queue says what each one was for
+  private snapshotRequests: SnapshotPurpose[] = [];
+  private autosaveTimerId: number | null = null;
+  private pendingRestore: SimulationSnapshot | null = null;
+  private autosavedSnapshot: SimulationSnapshot | null = null;
+  // Options sent with the last init or restore, adopted by the session once the worker answers
+  private requestedOptions: SessionOptions = { history: null, locusStats: false };
+  // Timeline state: a past generation being viewed (null = live) and the replay loop
+  private viewedFrame: HistoryFrame | null = null;
+  private nextFrameGeneration: number | null = null;
+  private frameRequestInFlight: boolean = false;
+  private awaitingFrame: boolean = false;
+  private queuedFrameGeneration: number | null = null;
+  private isReplaying: boolean = false;
+  private replayTimerId: number | null = null;
+  // Interactive mode: ratings given since the last step, by string, and the cards they belong to
+  private ratings = new Map<string, number>();
+  private displayedPopulation: Individual[] = [];
 
   // Input elements
   private targetInput: HTMLInputElement;
+  private interactiveToggle: HTMLInputElement;
+  private targetModeSelect: HTMLSelectElement;
+  private extraTargetsInput: HTMLTextAreaElement;
+  private targetChangeSelect: HTMLSelectElement;
+  private targetChangeIntervalInput: HTMLInputElement;
+  private driftEditsInput: HTMLInputElement;
+  private stringLengthInput: HTMLInputElement;
+  private secondObjectiveSelect: HTMLSelectElement;
+  private secondTargetInput: HTMLInputElement;
   private populationInput: HTMLInputElement;
   private survivalInput: HTMLInputElement;
   private delayInput: HTMLInputElement;
+  private maxGenerationsInput: HTMLInputElement;
+  private seedInput: HTMLInputElement;
   private characterSetSelect: HTMLSelectElement;
+  private customCharactersInput: HTMLInputElement;
   private selectionStrategySelect: HTMLSelectElement;
+  private fitnessStrategySelect: HTMLSelectElement;
+  private tournamentSizeInput: HTMLInputElement;
+  private boltzmannTemperatureInput: HTMLInputElement;
+  private eliteCountInput: HTMLInputElement;
+  private crossoverStrategySelect: HTMLSelectElement;
+  private crossoverPointsInput: HTMLInputElement;
+  private uniformSwapRateInput: HTMLInputElement;
+  private crossoverRateSlider: HTMLInputElement;
+  private crossoverRateValue: HTMLElement;
   private mutationToggle: HTMLInputElement;
+  private variableLengthToggle: HTMLInputElement;
+  private minLengthInput: HTMLInputElement;
+  private maxLengthInput: HTMLInputElement;
+  private insertionRateInput: HTMLInputElement;
+  private deletionRateInput: HTMLInputElement;
   private mutationRateSlider: HTMLInputElement;
   private mutationRateValue: HTMLElement;
+  private mutationDecayToggle: HTMLInputElement;
+  private stagnationThresholdInput: HTMLInputElement;
+  private hypermutationToggle: HTMLInputElement;
+  private hypermutationMultiplierInput: HTMLInputElement;
+  private hypermutationDurationInput: HTMLInputElement;
+  private stagnationResponseSelect: HTMLSelectElement;
+  private replacementRateInput: HTMLInputElement;
+  private islandCountInput: HTMLInputElement;
+  private migrationIntervalInput: HTMLInputElement;
+  private migrantCountInput: HTMLInputElement;
+  private migrationTopologySelect: HTMLSelectElement;
+  private islandSettingsList: HTMLElement;
+  private islandLegendItem: HTMLElement;
+  private targetChangeLegendItem: HTMLElement;
+  private nichingSelect: HTMLSelectElement;
+  private sharingRadiusInput: HTMLInputElement;
+  private eliminateDuplicatesToggle: HTMLInputElement;
+  private trackLineageToggle: HTMLInputElement;
+  private lineageDepthSelect: HTMLSelectElement;
+  private recordHistoryToggle: HTMLInputElement;
+  private historyDepthInput: HTMLInputElement;
+  private historySampleIntervalInput: HTMLInputElement;
+  private trackLociToggle: HTMLInputElement;
+  private convergenceMetricSelect: HTMLSelectElement;
+  private chartSeriesSelect: HTMLSelectElement;
+  private chartLogScaleToggle: HTMLInputElement;
+  private diversitySeriesLabel: HTMLElement;
+  private timelineSlider: HTMLInputElement;
+  private replaySpeedSelect: HTMLSelectElement;
 
   // Button elements
   private initButton: HTMLButtonElement;
@@ -31,6 +160,21 @@ export class UIController {
   private startButton: HTMLButtonElement;
   private stopButton: HTMLButtonElement;
   private resetButton: HTMLButtonElement;
+  private replayButton: HTMLButtonElement;
+  private exportSnapshotButton: HTMLButtonElement;
+  private importSnapshotButton: HTMLButtonElement;
+  private snapshotFileInput: HTMLInputElement;
+  private restoreButton: HTMLButtonElement;
+  private discardRestoreButton: HTMLButtonElement;
+  private timelineReplayButton: HTMLButtonElement;
+  private timelineLiveButton: HTMLButtonElement;
+  private lineageRefreshButton: HTMLButtonElement;
+  private chartResetZoomButton: HTMLButtonElement;
+  private exportPngButton: HTMLButtonElement;
+  private exportSvgButton: HTMLButtonElement;
+  private exportCsvButton: HTMLButtonElement;
+  private exportJsonButton: HTMLButtonElement;
+  private exportPopulationButton: HTMLButtonElement;
 
   // Display elements
   private generationDisplay: HTMLElement;
@@ -39,22 +183,95 @@ export class UIController {
   private avgScoreDisplay: HTMLElement;
   private diversityDisplay: HTMLElement;
   private stagnationDisplay: HTMLElement;
+  private effectiveMutationDisplay: HTMLElement;
   private statusDisplay: HTMLElement;
   private populationList: HTMLElement;
+  private ratingHint: HTMLElement;
   private convergenceAlert: HTMLElement;
   private stagnantGensSpan: HTMLElement;
+  private seedDisplay: HTMLElement;
+  private currentTargetDisplay: HTMLElement;
+  private readaptationDisplay: HTMLElement;
+  private paretoFrontDisplay: HTMLElement;
+  private chartRow: HTMLElement;
+  private paretoPanel: HTMLElement;
+  private restorePrompt: HTMLElement;
+  private restoreMessage: HTMLElement;
+  private timeline: HTMLElement;
+  private timelineLabel: HTMLElement;
+  private lineageSection: HTMLElement;
+  private lineageTree: HTMLElement;
+  private convergencePanel: HTMLElement;
+  private locusDetails: HTMLElement;
 
   constructor() {
     // Get input elements
     this.targetInput = this.getElement<HTMLInputElement>('#target');
+    this.interactiveToggle = this.getElement<HTMLInputElement>('#interactive');
+    this.targetModeSelect = this.getElement<HTMLSelectElement>('#targetMode');
+    this.extraTargetsInput = this.getElement<HTMLTextAreaElement>('#extraTargets');
+    this.targetChangeSelect = this.getElement<HTMLSelectElement>('#targetChange');
+    this.targetChangeIntervalInput = this.getElement<HTMLInputElement>('#targetChangeInterval');
+    this.driftEditsInput = this.getElement<HTMLInputElement>('#driftEdits');
+    this.stringLengthInput = this.getElement<HTMLInputElement>('#stringLength');
+    this.secondObjectiveSelect = this.getElement<HTMLSelectElement>('#secondObjective');
+    this.secondTargetInput = this.getElement<HTMLInputElement>('#secondTarget');
     this.populationInput = this.getElement<HTMLInputElement>('#population');
     this.survivalInput = this.getElement<HTMLInputElement>('#survival');
     this.delayInput = this.getElement<HTMLInputElement>('#delay');
+    this.maxGenerationsInput = this.getElement<HTMLInputElement>('#maxGenerations');
+    this.seedInput = this.getElement<HTMLInputElement>('#seed');
     this.characterSetSelect = this.getElement<HTMLSelectElement>('#characterSet');
+    this.customCharactersInput = this.getElement<HTMLInputElement>('#customCharacters');
     this.selectionStrategySelect = this.getElement<HTMLSelectElement>('#selectionStrategy');
+    this.fitnessStrategySelect = this.getElement<HTMLSelectElement>('#fitnessStrategy');
+    this.tournamentSizeInput = this.getElement<HTMLInputElement>('#tournamentSize');
+    this.boltzmannTemperatureInput = this.getElement<HTMLInputElement>('#boltzmannTemperature');
+    this.eliteCountInput = this.getElement<HTMLInputElement>('#eliteCount');
+    this.crossoverStrategySelect = this.getElement<HTMLSelectElement>('#crossoverStrategy');
+    this.crossoverPointsInput = this.getElement<HTMLInputElement>('#crossoverPoints');
+    this.uniformSwapRateInput = this.getElement<HTMLInputElement>('#uniformSwapRate');
+    this.crossoverRateSlider = this.getElement<HTMLInputElement>('#crossoverRate');
+    this.crossoverRateValue = this.getElement('#crossoverRateValue');
     this.mutationToggle = this.getElement<HTMLInputElement>('#mutation');
+    this.variableLengthToggle = this.getElement<HTMLInputElement>('#variableLength');
+    this.minLengthInput = this.getElement<HTMLInputElement>('#minLength');
+    this.maxLengthInput = this.getElement<HTMLInputElement>('#maxLength');
+    this.insertionRateInput = this.getElement<HTMLInputElement>('#insertionRate');
+    this.deletionRateInput = this.getElement<HTMLInputElement>('#deletionRate');
     this.mutationRateSlider = this.getElement<HTMLInputElement>('#mutationRate');
     this.mutationRateValue = this.getElement('#mutationRateValue');
+    this.mutationDecayToggle = this.getElement<HTMLInputElement>('#mutationDecay');
+    this.stagnationThresholdInput = this.getElement<HTMLInputElement>('#stagnationThreshold');
+    this.hypermutationToggle = this.getElement<HTMLInputElement>('#hypermutation');
+    this.hypermutationMultiplierInput = this.getElement<HTMLInputElement>(
+      '#hypermutationMultiplier',
+    );
+    this.hypermutationDurationInput = this.getElement<HTMLInputElement>('#hypermutationDuration');
+    this.stagnationResponseSelect = this.getElement<HTMLSelectElement>('#stagnationResponse');
+    this.replacementRateInput = this.getElement<HTMLInputElement>('#replacementRate');
+    this.islandCountInput = this.getElement<HTMLInputElement>('#islandCount');
+    this.migrationIntervalInput = this.getElement<HTMLInputElement>('#migrationInterval');
+    this.migrantCountInput = this.getElement<HTMLInputElement>('#migrantCount');
+    this.migrationTopologySelect = this.getElement<HTMLSelectElement>('#migrationTopology');
+    this.islandSettingsList = this.getElement('#islandSettings');
+    this.islandLegendItem = this.getElement('#islandLegendItem');
+    this.targetChangeLegendItem = this.getElement('#targetChangeLegendItem');
+    this.nichingSelect = this.getElement<HTMLSelectElement>('#niching');
+    this.sharingRadiusInput = this.getElement<HTMLInputElement>('#sharingRadius');
+    this.eliminateDuplicatesToggle = this.getElement<HTMLInputElement>('#eliminateDuplicates');
+    this.trackLineageToggle = this.getElement<HTMLInputElement>('#trackLineage');
+    this.lineageDepthSelect = this.getElement<HTMLSelectElement>('#lineageDepth');
+    this.recordHistoryToggle = this.getElement<HTMLInputElement>('#recordHistory');
+    this.historyDepthInput = this.getElement<HTMLInputElement>('#historyDepth');
+    this.historySampleIntervalInput = this.getElement<HTMLInputElement>('#historySampleInterval');
+    this.trackLociToggle = this.getElement<HTMLInputElement>('#trackLoci');
+    this.convergenceMetricSelect = this.getElement<HTMLSelectElement>('#convergenceMetric');
+    this.chartSeriesSelect = this.getElement<HTMLSelectElement>('#chartSeries');
+    this.chartLogScaleToggle = this.getElement<HTMLInputElement>('#chartLogScale');
+    this.diversitySeriesLabel = this.getElement('#diversitySeriesLabel');
+    this.timelineSlider = this.getElement<HTMLInputElement>('#timelineSlider');
+    this.replaySpeedSelect = this.getElement<HTMLSelectElement>('#replaySpeed');
 
     // Get button elements
     this.initButton = this.getElement<HTMLButtonElement>('#initBtn');
@@ -62,6 +279,21 @@ export class UIController {
     this.startButton = this.getElement<HTMLButtonElement>('#startBtn');
     this.stopButton = this.getElement<HTMLButtonElement>('#stopBtn');
     this.resetButton = this.getElement<HTMLButtonElement>('#resetBtn');
+    this.replayButton = this.getElement<HTMLButtonElement>('#replayBtn');
+    this.exportSnapshotButton = this.getElement<HTMLButtonElement>('#exportSnapshotBtn');
+    this.importSnapshotButton = this.getElement<HTMLButtonElement>('#importSnapshotBtn');
+    this.snapshotFileInput = this.getElement<HTMLInputElement>('#snapshotFile');
+    this.restoreButton = this.getElement<HTMLButtonElement>('#restoreBtn');
+    this.discardRestoreButton = this.getElement<HTMLButtonElement>('#discardRestoreBtn');
+    this.timelineReplayButton = this.getElement<HTMLButtonElement>('#timelineReplayBtn');
+    this.timelineLiveButton = this.getElement<HTMLButtonElement>('#timelineLiveBtn');
+    this.lineageRefreshButton = this.getElement<HTMLButtonElement>('#lineageRefreshBtn');
+    this.chartResetZoomButton = this.getElement<HTMLButtonElement>('#chartResetZoomBtn');
+    this.exportPngButton = this.getElement<HTMLButtonElement>('#exportPngBtn');
+    this.exportSvgButton = this.getElement<HTMLButtonElement>('#exportSvgBtn');
+    this.exportCsvButton = this.getElement<HTMLButtonElement>('#exportCsvBtn');
+    this.exportJsonButton = this.getElement<HTMLButtonElement>('#exportJsonBtn');
+    this.exportPopulationButton = this.getElement<HTMLButtonElement>('#exportPopulationBtn');
 
     // Get display elements
     this.generationDisplay = this.getElement('#generation');
@@ -70,16 +302,55 @@ export class UIController {
     this.avgScoreDisplay = this.getElement('#avgScore');
     this.diversityDisplay = this.getElement('#diversity');
     this.stagnationDisplay = this.getElement('#stagnation');
+    this.effectiveMutationDisplay = this.getElement('#effectiveMutation');
     this.statusDisplay = this.getElement('#status');
     this.populationList = this.getElement('#populationList');
+    this.ratingHint = this.getElement('#ratingHint');
     this.convergenceAlert = this.getElement('#convergenceAlert');
     this.stagnantGensSpan = this.getElement('#stagnantGens');
+    this.seedDisplay = this.getElement('#seedDisplay');
+    this.currentTargetDisplay = this.getElement('#currentTarget');
+    this.readaptationDisplay = this.getElement('#readaptation');
+    this.paretoFrontDisplay = this.getElement('#paretoFrontSize');
+    this.chartRow = this.getElement('#chartRow');
+    this.paretoPanel = this.getElement('#paretoPanel');
+    this.restorePrompt = this.getElement('#restorePrompt');
+    this.restoreMessage = this.getElement('#restoreMessage');
+    this.timeline = this.getElement('#timeline');
+    this.timelineLabel = this.getElement('#timelineLabel');
+    this.lineageSection = this.getElement('#lineageSection');
+    this.lineageTree = this.getElement('#lineageTree');
+    this.convergencePanel = this.getElement('#convergencePanel');
+    this.locusDetails = this.getElement('#locusDetails');
 
     // Initialize chart
     this.chart = new ChartController('fitnessChart', 'chartEmptyMessage');
+    this.convergenceHeatmap = new ConvergenceHeatmap(
+      'convergenceHeatmap',
+      'convergenceEmptyMessage',
+      (stats, position) => this.renderLocusDetails(stats, position),
+    );
+    this.paretoChart = new ParetoChart('paretoChart', 'paretoEmptyMessage');
+
+    // The genetic algorithm runs in a worker so long runs never block the page
+    this.runner = new GeneticAlgorithmRunner((message) => this.handleWorkerMessage(message));
+
+    // Comparisons and parameter sweeps vary a few settings and take everything else from this form
+    new ComparisonController(() => this.getConfig());
+    new SweepController(() => this.getConfig());
 
     this.attachEventListeners();
+    this.updateSelectionParameterVisibility();
+    this.updateCrossoverParameterVisibility();
+    this.updateLengthParameterVisibility();
+    this.updateCharacterSetVisibility();
+    this.updateStagnationParameterVisibility();
+    this.updateHistoryParameterVisibility();
+    this.updateIslandParameterVisibility();
+    this.updateNichingParameterVisibility();
+    this.updateTargetParameterVisibility();
     this.updateButtonStates();
+    this.offerAutosaveRestore();
   }
 
   private getElement<T extends HTMLElement>(selector: string): T {
@@ -111,6 +382,93 @@ export class UIController {
       analytics.trackButtonClick('reset');
       this.handleReset();
     });
+    this.replayButton.addEventListener('click', () => {
+      analytics.trackButtonClick('replay_seed');
+      this.handleReplaySeed();
+    });
+    this.exportSnapshotButton.addEventListener('click', () => {
+      analytics.trackButtonClick('export_snapshot');
+      this.handleExportSnapshot();
+    });
+    this.exportPngButton.addEventListener('click', () => {
+      analytics.trackButtonClick('export_png');
+      this.handleExportPng();
+    });
+    this.exportSvgButton.addEventListener('click', () => {
+      analytics.trackButtonClick('export_svg');
+      this.handleExportSvg();
+    });
+    this.exportCsvButton.addEventListener('click', () => {
+      analytics.trackButtonClick('export_csv');
+      this.handleExportChartData('csv');
+    });
+    this.exportJsonButton.addEventListener('click', () => {
+      analytics.trackButtonClick('export_json');
+      this.handleExportChartData('json');
+    });
+    this.exportPopulationButton.addEventListener('click', () => {
+      analytics.trackButtonClick('export_population');
+      this.handleExportPopulation();
+    });
+    this.importSnapshotButton.addEventListener('click', () => {
+      analytics.trackButtonClick('import_snapshot');
+      this.snapshotFileInput.click();
+    });
+    this.snapshotFileInput.addEventListener('change', () => {
+      const file = this.snapshotFileInput.files?.[0];
+      // Clear the input so choosing the same file again still fires 'change'
+      this.snapshotFileInput.value = '';
+      if (file) {
+        this.handleImportSnapshot(file);
+      }
+    });
+    this.restoreButton.addEventListener('click', () => {
+      this.hideRestorePrompt();
+      if (this.autosavedSnapshot) {
+        this.restoreSnapshot(this.autosavedSnapshot);
+      }
+    });
+    this.discardRestoreButton.addEventListener('click', () => {
+      this.hideRestorePrompt();
+      clearAutosave();
+    });
+    this.timelineReplayButton.addEventListener('click', () => {
+      analytics.trackButtonClick('timeline_replay');
+      this.handleReplayToggle();
+    });
+    this.timelineLiveButton.addEventListener('click', () => this.showLive());
+    this.populationList.addEventListener('click', (event) => this.handlePopulationClick(event));
+    this.lineageRefreshButton.addEventListener('click', () => this.requestLineage());
+    this.lineageDepthSelect.addEventListener('change', () => this.requestLineage());
+    this.chartSeriesSelect.addEventListener('change', () => {
+      this.chart.setSeries(this.chartSeriesSelect.value as DiversitySeries);
+      this.diversitySeriesLabel.textContent =
+        this.chartSeriesSelect.selectedOptions[0]?.textContent ?? '';
+    });
+    this.chartLogScaleToggle.addEventListener('change', () => {
+      this.chart.setLogScale(this.chartLogScaleToggle.checked);
+    });
+    this.chartResetZoomButton.addEventListener('click', () => this.chart.resetZoom());
+    document.querySelectorAll<HTMLButtonElement>('.legend-item[data-line]').forEach((button) => {
+      button.addEventListener('click', () => {
+        const line = button.dataset.line as ChartLine;
+        const visible = !this.chart.isLineVisible(line);
+        this.chart.setLineVisible(line, visible);
+        button.setAttribute('aria-pressed', String(visible));
+      });
+    });
+    this.convergenceMetricSelect.addEventListener('change', () => {
+      this.convergenceHeatmap.setMetric(this.convergenceMetricSelect.value as ConvergenceMetric);
+    });
+    this.timelineSlider.addEventListener('input', () => {
+      this.stopReplay();
+      const generation = parseInt(this.timelineSlider.value);
+      if (generation >= parseInt(this.timelineSlider.max)) {
+        this.showLive();
+      } else {
+        this.requestFrame(generation);
+      }
+    });
 
     // Preset buttons
     const presetButtons = document.querySelectorAll('.btn-preset');
@@ -142,6 +500,143 @@ export class UIController {
       if (value < 0) this.delayInput.value = '0';
     });
 
+    this.maxGenerationsInput.addEventListener('input', () => {
+      const value = parseInt(this.maxGenerationsInput.value);
+      if (value < 0) this.maxGenerationsInput.value = '0';
+    });
+
+    this.seedInput.addEventListener('input', () => {
+      const value = parseInt(this.seedInput.value);
+      if (value < 0) this.seedInput.value = '0';
+      if (value > 4294967295) this.seedInput.value = '4294967295';
+    });
+
+    this.tournamentSizeInput.addEventListener('input', () => {
+      const value = parseInt(this.tournamentSizeInput.value);
+      if (value < 2) this.tournamentSizeInput.value = '2';
+      if (value > 100) this.tournamentSizeInput.value = '100';
+    });
+
+    this.eliteCountInput.addEventListener('input', () => {
+      const value = parseInt(this.eliteCountInput.value);
+      if (value < 0) this.eliteCountInput.value = '0';
+      if (value > 10000) this.eliteCountInput.value = '10000';
+    });
+
+    // Only show the parameters relevant to the chosen selection strategy
+    this.selectionStrategySelect.addEventListener('change', () => {
+      this.updateSelectionParameterVisibility();
+    });
+
+    this.crossoverPointsInput.addEventListener('input', () => {
+      const value = parseInt(this.crossoverPointsInput.value);
+      if (value < 1) this.crossoverPointsInput.value = '1';
+      if (value > 50) this.crossoverPointsInput.value = '50';
+    });
+
+    this.uniformSwapRateInput.addEventListener('input', () => {
+      const value = parseInt(this.uniformSwapRateInput.value);
+      if (value < 0) this.uniformSwapRateInput.value = '0';
+      if (value > 100) this.uniformSwapRateInput.value = '100';
+    });
+
+    this.stagnationThresholdInput.addEventListener('input', () => {
+      const value = parseInt(this.stagnationThresholdInput.value);
+      if (value < 1) this.stagnationThresholdInput.value = '1';
+      if (value > 10000) this.stagnationThresholdInput.value = '10000';
+    });
+
+    this.hypermutationToggle.addEventListener('change', () => {
+      this.updateStagnationParameterVisibility();
+    });
+
+    this.stagnationResponseSelect.addEventListener('change', () => {
+      this.updateStagnationParameterVisibility();
+    });
+
+    this.characterSetSelect.addEventListener('change', () => {
+      this.updateCharacterSetVisibility();
+    });
+
+    this.islandCountInput.addEventListener('input', () => {
+      const value = parseInt(this.islandCountInput.value);
+      if (value < 1) this.islandCountInput.value = '1';
+      if (value > MAX_ISLANDS) this.islandCountInput.value = MAX_ISLANDS.toString();
+      this.updateIslandParameterVisibility();
+    });
+
+    this.interactiveToggle.addEventListener('change', () => {
+      this.updateTargetParameterVisibility();
+    });
+
+    this.targetModeSelect.addEventListener('change', () => {
+      this.updateTargetParameterVisibility();
+    });
+
+    this.targetChangeSelect.addEventListener('change', () => {
+      this.updateTargetParameterVisibility();
+    });
+
+    this.targetChangeIntervalInput.addEventListener('input', () => {
+      const value = parseInt(this.targetChangeIntervalInput.value);
+      if (value < 1) this.targetChangeIntervalInput.value = '1';
+      if (value > 10000) this.targetChangeIntervalInput.value = '10000';
+    });
+
+    this.driftEditsInput.addEventListener('input', () => {
+      const value = parseInt(this.driftEditsInput.value);
+      if (value < 1) this.driftEditsInput.value = '1';
+      if (value > 100) this.driftEditsInput.value = '100';
+    });
+
+    this.stringLengthInput.addEventListener('input', () => {
+      const value = parseInt(this.stringLengthInput.value);
+      if (value < 1) this.stringLengthInput.value = '1';
+      if (value > 100) this.stringLengthInput.value = '100';
+    });
+
+    this.secondObjectiveSelect.addEventListener('change', () => {
+      this.updateObjectiveParameterVisibility();
+    });
+
+    this.nichingSelect.addEventListener('change', () => {
+      this.updateNichingParameterVisibility();
+    });
+
+    this.sharingRadiusInput.addEventListener('input', () => {
+      const value = parseInt(this.sharingRadiusInput.value);
+      if (value < 1) this.sharingRadiusInput.value = '1';
+      if (value > 1000) this.sharingRadiusInput.value = '1000';
+    });
+
+    this.variableLengthToggle.addEventListener('change', () => {
+      this.updateLengthParameterVisibility();
+    });
+
+    this.recordHistoryToggle.addEventListener('change', () => {
+      this.updateHistoryParameterVisibility();
+    });
+
+    this.historyDepthInput.addEventListener('input', () => {
+      const value = parseInt(this.historyDepthInput.value);
+      if (value < 1) this.historyDepthInput.value = '1';
+      if (value > 10000) this.historyDepthInput.value = '10000';
+    });
+
+    this.historySampleIntervalInput.addEventListener('input', () => {
+      const value = parseInt(this.historySampleIntervalInput.value);
+      if (value < 1) this.historySampleIntervalInput.value = '1';
+      if (value > 1000) this.historySampleIntervalInput.value = '1000';
+    });
+
+    this.crossoverStrategySelect.addEventListener('change', () => {
+      this.updateCrossoverParameterVisibility();
+    });
+
+    this.crossoverRateSlider.addEventListener('input', () => {
+      this.crossoverRateValue.textContent = this.crossoverRateSlider.value;
+    });
+
     // Update mutation rate display
     this.mutationRateSlider.addEventListener('input', () => {
       this.mutationRateValue.textContent = this.mutationRateSlider.value;
@@ -154,16 +649,284 @@ export class UIController {
       populationSize: parseInt(this.populationInput.value),
       survivalRate: parseInt(this.survivalInput.value),
       mutationEnabled: this.mutationToggle.checked,
+      variableLength: this.variableLengthToggle.checked,
+      minLength: this.minLengthInput.value === '' ? undefined : parseInt(this.minLengthInput.value),
+      maxLength: this.maxLengthInput.value === '' ? undefined : parseInt(this.maxLengthInput.value),
+      insertionRate: (parseFloat(this.insertionRateInput.value) || 0) / 100,
+      deletionRate: (parseFloat(this.deletionRateInput.value) || 0) / 100,
       mutationRate: parseFloat(this.mutationRateSlider.value) / 100,
+      mutationDecay: this.mutationDecayToggle.checked,
+      stagnationThreshold: parseInt(this.stagnationThresholdInput.value) || 50,
+      hypermutation: this.hypermutationToggle.checked,
+      hypermutationMultiplier: parseFloat(this.hypermutationMultiplierInput.value) || 1,
+      hypermutationDuration: parseInt(this.hypermutationDurationInput.value) || 1,
+      stagnationResponse: this.stagnationResponseSelect.value as StagnationResponse,
+      stagnationReplacementRate: (parseInt(this.replacementRateInput.value) || 0) / 100,
       characterSet: this.characterSetSelect.value as CharacterSet,
+      customCharacters: this.customCharactersInput.value,
       selectionStrategy: this.selectionStrategySelect.value as SelectionStrategy,
+      eliteCount: parseInt(this.eliteCountInput.value) || 0,
+      tournamentSize: parseInt(this.tournamentSizeInput.value) || 2,
+      boltzmannTemperature: parseFloat(this.boltzmannTemperatureInput.value) || 1,
+      crossoverStrategy: this.crossoverStrategySelect.value as CrossoverStrategy,
+      crossoverRate: parseInt(this.crossoverRateSlider.value) / 100,
+      crossoverPoints: parseInt(this.crossoverPointsInput.value) || 1,
+      uniformSwapRate: (parseInt(this.uniformSwapRateInput.value) || 0) / 100,
+      fitnessStrategy: this.fitnessStrategySelect.value as FitnessStrategy,
+      seed: this.seedInput.value === '' ? undefined : parseInt(this.seedInput.value),
+      trackLineage: this.trackLineageToggle.checked,
+      islandCount: parseInt(this.islandCountInput.value) || 1,
+      islandSettings: this.getIslandSettings(),
+      migrationInterval: parseInt(this.migrationIntervalInput.value) || 10,
+      migrationTopology: this.migrationTopologySelect.value as MigrationTopology,
+      migrantCount: parseInt(this.migrantCountInput.value) || 2,
+      niching: this.nichingSelect.value as NichingStrategy,
+      sharingRadius: parseInt(this.sharingRadiusInput.value) || 3,
+      eliminateDuplicates: this.eliminateDuplicatesToggle.checked,
+      // Target modes do not apply while a person rates the strings
+      targetMode: this.interactiveToggle.checked
+        ? 'single'
+        : (this.targetModeSelect.value as TargetMode),
+      targets: this.extraTargetsInput.value.split(/\r?\n/).filter((line) => line !== ''),
+      targetChange: this.targetChangeSelect.value as TargetChangeTrigger,
+      targetChangeInterval: parseInt(this.targetChangeIntervalInput.value) || 100,
+      driftEdits: parseInt(this.driftEditsInput.value) || 1,
+      interactive: this.interactiveToggle.checked,
+      stringLength: parseInt(this.stringLengthInput.value) || 12,
+      secondObjective: this.secondObjectiveSelect.value as SecondObjective,
+      secondTarget: this.secondTargetInput.value,
+    };
+  }
+
+  private getIslandSettings(): IslandSettings[] {
+    return Array.from(this.islandSettingsList.children, (row) => {
+      const strategy = row.querySelector<HTMLSelectElement>('[data-field="selectionStrategy"]')!;
+      const mutation = row.querySelector<HTMLInputElement>('[data-field="mutationRate"]')!;
+      const settings: IslandSettings = {};
+      if (strategy.value !== '') {
+        settings.selectionStrategy = strategy.value as SelectionStrategy;
+      }
+      if (mutation.value !== '') {
+        settings.mutationRate = parseFloat(mutation.value) / 100;
+      }
+      return settings;
+    });
+  }
+
+  private getHistoryOptions(): HistoryOptions | null {
+    if (!this.recordHistoryToggle.checked) return null;
+
+    return {
+      depth: parseInt(this.historyDepthInput.value) || 500,
+      sampleInterval: parseInt(this.historySampleIntervalInput.value) || 1,
     };
   }
 
+  private getSessionOptions(): SessionOptions {
+    return {
+      history: this.getHistoryOptions(),
+      // Per-position convergence is measured against a target, which interactive mode lacks
+      locusStats: this.trackLociToggle.checked && !this.interactiveToggle.checked,
+    };
+  }
+
+  // Inverse of getConfig, used when a snapshot brings its own settings
+  private setFormConfig(config: WorkerConfig): void {
+    const percent = (value: number) => Number((value * 100).toFixed(4)).toString();
+
+    this.targetInput.value = config.target;
+    this.populationInput.value = config.populationSize.toString();
+    this.survivalInput.value = config.survivalRate.toString();
+    this.mutationToggle.checked = config.mutationEnabled;
+    this.variableLengthToggle.checked = config.variableLength!;
+    this.minLengthInput.value = config.minLength!.toString();
+    this.maxLengthInput.value = config.maxLength!.toString();
+    this.insertionRateInput.value = percent(config.insertionRate!);
+    this.deletionRateInput.value = percent(config.deletionRate!);
+    this.mutationRateSlider.value = percent(config.mutationRate!);
+    this.mutationRateValue.textContent = this.mutationRateSlider.value;
+    this.mutationDecayToggle.checked = config.mutationDecay!;
+    this.stagnationThresholdInput.value = config.stagnationThreshold!.toString();
+    this.hypermutationToggle.checked = config.hypermutation!;
+    this.hypermutationMultiplierInput.value = config.hypermutationMultiplier!.toString();
+    this.hypermutationDurationInput.value = config.hypermutationDuration!.toString();
+    this.stagnationResponseSelect.value = config.stagnationResponse!;
+    this.replacementRateInput.value = percent(config.stagnationReplacementRate!);
+    this.characterSetSelect.value = config.characterSet;
+    this.customCharactersInput.value = config.customCharacters ?? '';
+    this.selectionStrategySelect.value = config.selectionStrategy;
+    this.eliteCountInput.value = config.eliteCount!.toString();
+    this.tournamentSizeInput.value = config.tournamentSize!.toString();
+    this.boltzmannTemperatureInput.value = config.boltzmannTemperature!.toString();
+    this.crossoverStrategySelect.value = config.crossoverStrategy!;
+    this.crossoverRateSlider.value = percent(config.crossoverRate!);
+    this.crossoverRateValue.textContent = this.crossoverRateSlider.value;
+    this.crossoverPointsInput.value = config.crossoverPoints!.toString();
+    this.uniformSwapRateInput.value = percent(config.uniformSwapRate!);
+    this.fitnessStrategySelect.value = config.fitnessStrategy!;
+    this.seedInput.value = config.seed!.toString();
+    this.trackLineageToggle.checked = config.trackLineage!;
+    // Snapshots saved before the island model have no island settings
+    this.islandCountInput.value = (config.islandCount ?? 1).toString();
+    this.migrationIntervalInput.value = (config.migrationInterval ?? 10).toString();
+    this.migrantCountInput.value = (config.migrantCount ?? 2).toString();
+    this.migrationTopologySelect.value = config.migrationTopology ?? 'ring';
+    this.updateIslandParameterVisibility();
+    Array.from(this.islandSettingsList.children).forEach((row, island) => {
+      const settings = config.islandSettings?.[island];
+      row.querySelector<HTMLSelectElement>('[data-field="selectionStrategy"]')!.value =
+        settings?.selectionStrategy ?? '';
+      row.querySelector<HTMLInputElement>('[data-field="mutationRate"]')!.value =
+        settings?.mutationRate === undefined ? '' : percent(settings.mutationRate);
+    });
+    this.nichingSelect.value = config.niching ?? 'none';
+    this.sharingRadiusInput.value = (config.sharingRadius ?? 3).toString();
+    this.eliminateDuplicatesToggle.checked = config.eliminateDuplicates ?? false;
+    this.updateNichingParameterVisibility();
+    // Snapshots saved before moving targets only had the one target
+    this.targetModeSelect.value = config.targetMode ?? 'single';
+    this.extraTargetsInput.value = (config.targets ?? []).join('\n');
+    this.targetChangeSelect.value = config.targetChange ?? 'interval';
+    this.targetChangeIntervalInput.value = (config.targetChangeInterval ?? 100).toString();
+    this.driftEditsInput.value = (config.driftEdits ?? 1).toString();
+    this.interactiveToggle.checked = config.interactive ?? false;
+    this.stringLengthInput.value = (
+      config.stringLength ?? splitCodePoints(config.target).length
+    ).toString();
+    this.updateTargetParameterVisibility();
+    // Snapshots saved before multi-objective mode optimised the target alone
+    this.secondObjectiveSelect.value = config.secondObjective ?? 'none';
+    this.secondTargetInput.value = config.secondTarget ?? '';
+    this.updateObjectiveParameterVisibility();
+
+    this.updateSelectionParameterVisibility();
+    this.updateCrossoverParameterVisibility();
+    this.updateLengthParameterVisibility();
+    this.updateCharacterSetVisibility();
+    this.updateStagnationParameterVisibility();
+  }
+
+  private updateSelectionParameterVisibility(): void {
+    const strategy = this.selectionStrategySelect.value as SelectionStrategy;
+    const toggleGroup = (input: HTMLInputElement, visible: boolean) => {
+      input.closest('.form-group')?.classList.toggle('hidden', !visible);
+    };
+
+    toggleGroup(this.tournamentSizeInput, strategy === 'tournament');
+    toggleGroup(this.boltzmannTemperatureInput, strategy === 'boltzmann');
+    // Elitism already keeps every survivor, so a separate elite count would be redundant
+    toggleGroup(this.eliteCountInput, strategy !== 'elitism');
+  }
+
+  private updateCrossoverParameterVisibility(): void {
+    const strategy = this.crossoverStrategySelect.value as CrossoverStrategy;
+    this.crossoverPointsInput
+      .closest('.form-group')
+      ?.classList.toggle('hidden', strategy !== 'k-point');
+    this.uniformSwapRateInput
+      .closest('.form-group')
+      ?.classList.toggle('hidden', strategy !== 'uniform');
+  }
+
+  private updateStagnationParameterVisibility(): void {
+    this.hypermutationMultiplierInput
+      .closest('.form-group')
+      ?.classList.toggle('hidden', !this.hypermutationToggle.checked);
+    this.replacementRateInput
+      .closest('.form-group')
+      ?.classList.toggle('hidden', this.stagnationResponseSelect.value === 'none');
+  }
+
+  private updateTargetParameterVisibility(): void {
+    const interactive = this.interactiveToggle.checked;
+    // With no target there is no target mode either
+    const mode = interactive ? null : (this.targetModeSelect.value as TargetMode);
+    const moving = mode === 'cycle' || mode === 'drift';
+    const toggleGroup = (control: HTMLElement, visible: boolean) => {
+      control.closest('.form-group')?.classList.toggle('hidden', !visible);
+    };
+
+    toggleGroup(this.targetInput, !interactive);
+    toggleGroup(this.targetModeSelect, !interactive);
+    toggleGroup(this.stringLengthInput, interactive);
+    toggleGroup(this.extraTargetsInput, mode === 'multi' || mode === 'cycle');
+    toggleGroup(this.targetChangeSelect, moving);
+    toggleGroup(
+      this.targetChangeIntervalInput,
+      moving && this.targetChangeSelect.value === 'interval',
+    );
+    toggleGroup(this.driftEditsInput, mode === 'drift');
+  }
+
+  private updateObjectiveParameterVisibility(): void {
+    this.secondTargetInput
+      .closest('.form-group')
+      ?.classList.toggle('hidden', this.secondObjectiveSelect.value !== 'second-target');
+  }
+
+  private updateNichingParameterVisibility(): void {
+    this.sharingRadiusInput
+      .closest('.form-group')
+      ?.classList.toggle('hidden', this.nichingSelect.value !== 'sharing');
+  }
+
+  private updateIslandParameterVisibility(): void {
+    const islands = parseInt(this.islandCountInput.value) || 1;
+    const visible = islands > 1;
+    this.migrationIntervalInput.closest('.form-group')?.classList.toggle('hidden', !visible);
+    this.migrationTopologySelect.closest('.form-group')?.classList.toggle('hidden', !visible);
+    this.islandSettingsList.closest('.form-group')?.classList.toggle('hidden', !visible);
+    this.updateIslandSettingRows(visible ? islands : 0);
+  }
+
+  // Rows are added or removed at the end so overrides already entered for other islands stay
+  private updateIslandSettingRows(count: number): void {
+    const rows = this.islandSettingsList.children;
+    while (rows.length > count) {
+      rows[rows.length - 1].remove();
+    }
+    while (rows.length < count) {
+      const island = rows.length + 1;
+      const row = document.createElement('div');
+      row.className = 'island-setting';
+      row.innerHTML = `
+        <span class="island-setting-label">Island ${island}</span>
+        <select data-field="selectionStrategy" aria-label="Island ${island} selection strategy">
+          <option value="">As above</option>
+          ${this.selectionStrategySelect.innerHTML}
+        </select>
+        <input type="number" data-field="mutationRate" min="0" max="100" step="0.1"
+          placeholder="As above" aria-label="Island ${island} mutation percentage" />
+      `;
+      // The copied options carry the main form's default selection
+      row.querySelector<HTMLSelectElement>('select')!.value = '';
+      this.islandSettingsList.appendChild(row);
+    }
+  }
+
+  private updateCharacterSetVisibility(): void {
+    this.customCharactersInput
+      .closest('.form-group')
+      ?.classList.toggle('hidden', this.characterSetSelect.value !== 'custom');
+  }
+
+  private updateHistoryParameterVisibility(): void {
+    const visible = this.recordHistoryToggle.checked;
+    this.historyDepthInput.closest('.form-group')?.classList.toggle('hidden', !visible);
+    this.historySampleIntervalInput.closest('.form-group')?.classList.toggle('hidden', !visible);
+  }
+
+  private updateLengthParameterVisibility(): void {
+    const visible = this.variableLengthToggle.checked;
+    this.minLengthInput.closest('.form-group')?.classList.toggle('hidden', !visible);
+    this.insertionRateInput.closest('.form-group')?.classList.toggle('hidden', !visible);
+  }
+
   private handleInitialize(): void {
     const config = this.getConfig();
+    const interactive = config.interactive!;
 
-    if (!config.target) {
+    if (!config.target && !interactive) {
       this.updateStatus('Please enter a target string', 'error');
       return;
     }
@@ -173,143 +936,787 @@ export class UIController {
       return;
     }
 
-    // Create a temporary instance to get the character pool
-    const tempGA = new GeneticAlgorithm(config);
-    const characterPool = tempGA.getCharacterPool();
+    if (
+      interactive &&
+      (config.islandCount! > 1 || config.niching !== 'none' || config.secondObjective !== 'none')
+    ) {
+      this.updateStatus(
+        'Interactive mode cannot be combined with islands, niching or a second objective',
+        'error',
+      );
+      return;
+    }
+
+    const usesTargetList = config.targetMode === 'multi' || config.targetMode === 'cycle';
+    // Interactive mode has no target, so there is nothing to check the character set against
+    const targets = interactive
+      ? []
+      : usesTargetList
+        ? [config.target, ...config.targets!]
+        : [config.target];
+    if (usesTargetList && targets.length < 2) {
+      this.updateStatus('Enter at least one further target, one per line', 'error');
+      return;
+    }
 
-    // Check if all characters in target are in the character set
-    const invalidChars: string[] = [];
-    for (const char of config.target) {
-      if (!characterPool.includes(char) && !invalidChars.includes(char)) {
-        invalidChars.push(char);
+    if (config.secondObjective === 'second-target') {
+      if (!config.secondTarget) {
+        this.updateStatus('Please enter a second target string', 'error');
+        return;
       }
+      targets.push(config.secondTarget);
     }
 
-    if (invalidChars.length > 0) {
-      const charList = invalidChars.map((c) => `'${c}'`).join(', ');
+    const targetLength = splitCodePoints(config.target).length;
+    if (
+      !config.variableLength &&
+      targets.some((target) => splitCodePoints(target).length !== targetLength)
+    ) {
       this.updateStatus(
-        `Target string contains characters not in selected character set: ${charList}`,
+        'Every target must be as long as the first unless variable-length strings are on',
         'error',
       );
       return;
     }
 
-    // Clear previous data before initializing new simulation
-    this.chart.clear();
+    if (config.islandCount! > 1 && config.populationSize < config.islandCount! * 2) {
+      this.updateStatus('Island mode needs a population of at least 2 per island', 'error');
+      return;
+    }
+
+    const islandRates = config.islandSettings!.map((settings) => settings.mutationRate ?? 0);
+    if (config.islandCount! > 1 && islandRates.some((rate) => !(rate >= 0 && rate <= 1))) {
+      this.updateStatus('Island mutation percentages must be between 0 and 100', 'error');
+      return;
+    }
 
-    this.ga = tempGA;
-    this.ga.initialize();
+    if (
+      config.variableLength &&
+      config.minLength !== undefined &&
+      config.maxLength !== undefined &&
+      config.minLength > config.maxLength
+    ) {
+      this.updateStatus('Minimum length cannot exceed maximum length', 'error');
+      return;
+    }
 
-    const stats = this.ga.getStats();
-    this.updateDisplay(stats);
-    this.updateStatus('Simulation initialized', 'success');
-    this.updateButtonStates();
+    // A temporary instance rejects pools of fewer than 2 characters and targets outside the pool
+    let tempGA: GeneticAlgorithm;
+    try {
+      tempGA = new GeneticAlgorithm(config);
+      tempGA.validateTargetCharacters();
+    } catch (e) {
+      this.updateStatus(e instanceof Error ? e.message : String(e), 'error');
+      return;
+    }
+
+    // A new run replaces the autosave, so the old one can no longer be restored
+    this.hideRestorePrompt();
+
+    // Pin the seed chosen by the temporary instance so the worker replays the same run
+    this.requestedOptions = this.getSessionOptions();
+    this.runner.initialize({ ...config, seed: tempGA.getSeed() }, this.requestedOptions);
+    this.updateStatus('Initializing...', 'running');
 
     // Track initialization
     analytics.trackInitialized({
-      targetLength: config.target.length,
+      targetLength: splitCodePoints(config.target).length,
       populationSize: config.populationSize,
       survivalPercentage: config.survivalRate,
       mutationRate: config.mutationRate ?? 0.01,
       characterSet: config.characterSet,
       selectionStrategy: config.selectionStrategy,
+      fitnessStrategy: config.fitnessStrategy ?? 'positional',
+      eliteCount: config.eliteCount ?? 0,
+      crossoverStrategy: config.crossoverStrategy ?? 'single-point',
+      crossoverRate: config.crossoverRate ?? 1,
+      crossoverPoints: config.crossoverPoints ?? 3,
+      uniformSwapRate: config.uniformSwapRate ?? 0.5,
     });
   }
 
-  private handleStep(): void {
-    if (!this.ga) {
+  private handleReplaySeed(): void {
+    if (!this.session) {
       this.updateStatus('Please initialize the simulation first', 'error');
       return;
     }
 
-    const stats = this.ga.step();
-    this.updateDisplay(stats);
+    // Pin the seed input to the current run so initializing again replays it exactly
+    this.seedInput.value = this.session.config.seed!.toString();
+    this.handleInitialize();
+  }
 
-    if (stats.isComplete) {
-      this.updateStatus('Target reached! 🎉', 'success');
-      this.handleStop();
-    } else {
-      this.updateStatus('Step completed', 'success');
+  private handleStep(): void {
+    if (!this.session) {
+      this.updateStatus('Please initialize the simulation first', 'error');
+      return;
+    }
+
+    this.showLive();
+    if (this.isInteractiveSession()) {
+      this.runner.rate(this.getRatings());
     }
+    this.runner.step();
   }
 
   private handleStart(): void {
-    if (!this.ga) {
+    if (!this.session) {
       this.updateStatus('Please initialize the simulation first', 'error');
       return;
     }
 
+    this.showLive();
     this.isRunning = true;
     this.updateButtonStates();
     this.updateStatus('Simulation running...', 'running');
 
-    const delay = parseInt(this.delayInput.value);
+    const delay = parseInt(this.delayInput.value) || 0;
+    const maxGenerations = parseInt(this.maxGenerationsInput.value) || 0;
 
     // Track simulation start
-    const stats = this.ga.getStats();
-    const config = this.getConfig();
     analytics.trackSimulationStarted({
-      targetLength: stats.bestIndividual.dna.length,
-      populationSize: config.populationSize,
+      targetLength: splitCodePoints(this.session.config.target).length,
+      populationSize: this.session.config.populationSize,
       stepDelay: delay,
     });
 
-    const runStep = () => {
-      if (!this.isRunning || !this.ga) return;
-
-      const stats = this.ga.step();
-      this.updateDisplay(stats);
-
-      if (stats.isComplete) {
-        this.updateStatus('Target reached! 🎉', 'success');
-        // Track completion
-        const config = this.getConfig();
-        analytics.trackSimulationCompleted({
-          generations: stats.generation,
-          targetLength: stats.bestIndividual.dna.length,
-          populationSize: config.populationSize,
-          finalDiversity: stats.diversity,
-        });
-        this.handleStop();
-      } else {
-        this.intervalId = window.setTimeout(runStep, delay);
-      }
-    };
-
-    this.intervalId = window.setTimeout(runStep, delay);
+    this.runner.run(delay, maxGenerations);
+    this.autosaveTimerId = window.setInterval(() => this.autosave(), AUTOSAVE_INTERVAL_MS);
   }
 
   private handleStop(): void {
+    // The UI stops immediately; any batch already in flight from the worker is still displayed
     this.isRunning = false;
-    if (this.intervalId !== null) {
-      clearTimeout(this.intervalId);
-      this.intervalId = null;
-    }
+    this.runner.stop();
+    this.stopAutosaveTimer();
+    this.autosave();
+    this.requestLineage();
     this.updateButtonStates();
     this.updateStatus('Simulation stopped', 'info');
+    this.renderPopulation();
   }
 
   private handleReset(): void {
-    this.handleStop();
-
-    if (this.ga) {
-      this.ga.reset();
+    if (this.isRunning) {
+      this.handleStop();
     }
 
-    this.ga = null;
+    this.session = null;
+    this.resetTimeline();
+    this.resetLineage();
+    clearAutosave();
     this.clearDisplay();
     this.updateStatus('Simulation reset', 'info');
     this.updateButtonStates();
   }
 
+  private handleWorkerMessage(message: WorkerResponse): void {
+    switch (message.type) {
+      case 'initialized':
+        this.session = {
+          config: message.config,
+          stats: message.stats,
+          population: message.population,
+          options: this.requestedOptions,
+        };
+        this.resetTimeline();
+        this.resetLineage();
+        this.resetConvergence(message.loci);
+        // Clear previous data now that the new simulation exists
+        this.chart.clear();
+        this.chart.addDataPoints([this.toChartData(message.stats)]);
+        this.seedDisplay.textContent = message.config.seed!.toString();
+        this.islandLegendItem.classList.toggle('hidden', !message.stats.islands);
+        this.targetChangeLegendItem.classList.toggle('hidden', !message.stats.environment);
+        this.resetPareto();
+        this.resetRatings();
+        this.populationDirty = true;
+        this.scheduleRender();
+        this.updateStatus('Simulation initialized', 'success');
+        this.updateButtonStates();
+        this.autosave();
+        break;
+
+      case 'restored': {
+        this.session = {
+          config: message.config,
+          stats: message.stats,
+          population: message.population,
+          options: this.requestedOptions,
+        };
+        this.resetTimeline();
+        this.resetLineage();
+        this.resetConvergence(message.loci);
+        const chartData = this.pendingRestore?.chart ?? [];
+        this.pendingRestore = null;
+        this.chart.clear();
+        this.chart.addDataPoints(
+          chartData.length > 0 ? chartData : [this.toChartData(message.stats)],
+        );
+        this.seedDisplay.textContent = message.config.seed!.toString();
+        this.islandLegendItem.classList.toggle('hidden', !message.stats.islands);
+        this.targetChangeLegendItem.classList.toggle('hidden', !message.stats.environment);
+        this.resetPareto();
+        this.resetRatings();
+        this.populationDirty = true;
+        this.scheduleRender();
+        this.updateStatus(`Restored run at generation ${message.stats.generation}`, 'success');
+        this.updateButtonStates();
+        this.autosave();
+        break;
+      }
+
+      case 'generations': {
+        // Late batches can still arrive after a reset
+        if (!this.session) return;
+
+        this.session.stats = message.stats[message.stats.length - 1];
+        if (message.population) {
+          this.session.population = message.population;
+          this.resetRatings();
+          this.populationDirty = true;
+        }
+        this.chart.addDataPoints(message.stats.map((stats) => this.toChartData(stats)));
+        if (message.loci) {
+          this.convergenceHeatmap.setTarget(splitCodePoints(this.getCurrentTarget()));
+          this.convergenceHeatmap.addGenerations(message.loci);
+        }
+        this.scheduleRender();
+
+        if (!this.isRunning) {
+          if (this.session.stats.isComplete) {
+            this.updateStatus('Target reached! 🎉', 'success');
+          } else {
+            this.updateStatus('Step completed', 'success');
+          }
+          this.autosave();
+          this.requestLineage();
+        }
+        break;
+      }
+
+      case 'stopped':
+        this.handleRunEnd(message.reason);
+        break;
+
+      case 'snapshot':
+        this.handleSnapshot(message.state);
+        break;
+
+      case 'lineage':
+        this.renderLineage(message.tree);
+        break;
+
+      case 'frame':
+        this.handleFrame(message.frame, message.nextGeneration, message.range);
+        break;
+
+      case 'error':
+        this.isRunning = false;
+        this.pendingRestore = null;
+        this.stopAutosaveTimer();
+        this.updateButtonStates();
+        this.updateStatus(`Simulation error: ${message.message}`, 'error');
+        break;
+    }
+  }
+
+  private handleRunEnd(reason: RunEndReason): void {
+    // A user stop was already handled in handleStop
+    if (reason === 'stopped' || !this.isRunning || !this.session) return;
+
+    this.isRunning = false;
+    this.stopAutosaveTimer();
+    this.autosave();
+    this.requestLineage();
+    this.updateButtonStates();
+    this.populationDirty = true;
+    this.scheduleRender();
+
+    const stats = this.session.stats;
+    if (reason === 'complete') {
+      this.updateStatus('Target reached! 🎉', 'success');
+      // Track completion
+      analytics.trackSimulationCompleted({
+        generations: stats.generation,
+        targetLength: splitCodePoints(this.session.config.target).length,
+        populationSize: this.session.config.populationSize,
+        finalDiversity: stats.diversity,
+      });
+    } else {
+      this.updateStatus(`Stopped after reaching generation ${stats.generation}`, 'info');
+    }
+  }
+
+  private handleExportSnapshot(): void {
+    if (!this.session) {
+      this.updateStatus('Please initialize the simulation first', 'error');
+      return;
+    }
+
+    this.snapshotRequests.push('export');
+    this.runner.requestSnapshot();
+  }
+
+  // Exported files are named after the run's current generation, like snapshots
+  private getExportName(suffix: string): string {
+    return `genetic-string-generation-${this.session?.stats.generation ?? 0}-${suffix}`;
+  }
+
+  private async handleExportPng(): Promise<void> {
+    if (!this.session) return;
+
+    try {
+      downloadFile(this.getExportName('chart.png'), await this.chart.toPng(), 'image/png');
+    } catch (e) {
+      this.updateStatus(
+        `Could not export chart: ${e instanceof Error ? e.message : String(e)}`,
+        'error',
+      );
+    }
+  }
+
+  private handleExportSvg(): void {
+    if (!this.session) return;
+    downloadFile(this.getExportName('chart.svg'), this.chart.toSvg(), 'image/svg+xml');
+  }
+
+  private handleExportChartData(format: 'csv' | 'json'): void {
+    if (!this.session) return;
+
+    // Fill metrics missing from older snapshots with null so every row has the same columns
+    const rows = this.chart.getData().map((point) => ({
+      generation: point.generation,
+      bestFitness: point.bestFitness,
+      avgFitness: point.avgFitness,
+      maxFitness: point.maxFitness,
+      diversity: point.diversity,
+      hammingDistance: point.hammingDistance ?? null,
+      locusEntropy: point.locusEntropy ?? null,
+      fitnessStdDev: point.fitnessStdDev ?? null,
+      minFitness: point.minFitness ?? null,
+      lowerQuartileFitness: point.lowerQuartileFitness ?? null,
+      medianFitness: point.medianFitness ?? null,
+      upperQuartileFitness: point.upperQuartileFitness ?? null,
+      mutationRate: point.mutationRate,
+      isStagnant: point.isStagnant ?? null,
+      isComplete: point.isComplete ?? null,
+      islandBestFitness: point.islandBestFitness?.join(' ') ?? null,
+      target: point.target ?? null,
+      targetChanged: point.targetChanged ?? null,
+    }));
+
+    if (format === 'csv') {
+      downloadFile(this.getExportName('data.csv'), toCsv(rows), 'text/csv');
+    } else {
+      downloadFile(
+        this.getExportName('data.json'),
+        JSON.stringify(rows, null, 2),
+        'application/json',
+      );
+    }
+  }
+
+  // One individual per line, best first, as tab-separated score and string
+  private handleExportPopulation(): void {
+    if (!this.session) return;
+
+    const population = [...this.session.population].sort((a, b) => b.fitness - a.fitness);
+    const lines = [
+      `# Target: ${this.getCurrentTarget()}`,
+      `# Generation ${this.session.stats.generation}, ${population.length} individuals, best first`,
+      '# score\tstring',
+      ...population.map((individual) => `${individual.fitness}\t${individual.dna}`),
+    ];
+    downloadFile(this.getExportName('population.txt'), lines.join('\n') + '\n', 'text/plain');
+  }
+
+  private async handleImportSnapshot(file: File): Promise<void> {
+    try {
+      const snapshot = parseSnapshot(await file.text());
+      this.hideRestorePrompt();
+      this.restoreSnapshot(snapshot);
+    } catch (e) {
+      this.updateStatus(
+        `Could not import snapshot: ${e instanceof Error ? e.message : String(e)}`,
+        'error',
+      );
+    }
+  }
+
+  private restoreSnapshot(snapshot: SimulationSnapshot): void {
+    // Mirror the saved settings in the form so Replay Seed and later runs use them
+    this.setFormConfig(snapshot.state.config);
+    this.pendingRestore = snapshot;
+    this.requestedOptions = this.getSessionOptions();
+    this.runner.restore(snapshot.state, this.requestedOptions);
+    this.updateStatus('Restoring snapshot...', 'running');
+  }
+
+  private handleSnapshot(state: GeneticAlgorithmState): void {
+    const purpose = this.snapshotRequests.shift();
+    // Snapshots still in flight when the simulation was reset are dropped
+    if (!this.session) return;
+
+    const snapshot = createSnapshot(state, this.chart.getData());
+    if (purpose === 'export') {
+      downloadFile(
+        `genetic-string-generation-${state.generation}.json`,
+        JSON.stringify(snapshot),
+        'application/json',
+      );
+      this.updateStatus(`Snapshot of generation ${state.generation} exported`, 'success');
+    } else {
+      saveAutosave(snapshot);
+    }
+  }
+
+  private autosave(): void {
+    if (!this.session) return;
+
+    this.snapshotRequests.push('autosave');
+    this.runner.requestSnapshot();
+  }
+
+  private stopAutosaveTimer(): void {
+    if (this.autosaveTimerId !== null) {
+      clearInterval(this.autosaveTimerId);
+      this.autosaveTimerId = null;
+    }
+  }
+
+  private offerAutosaveRestore(): void {
+    const snapshot = loadAutosave();
+    if (!snapshot) return;
+
+    this.autosavedSnapshot = snapshot;
+    const savedAt = new Date(snapshot.savedAt).toLocaleString();
+    this.restoreMessage.textContent = `Found an autosaved run of "${snapshot.state.config.target}" at generation ${snapshot.state.generation} (saved ${savedAt}). Restore it?`;
+    this.restorePrompt.classList.remove('hidden');
+  }
+
+  private hideRestorePrompt(): void {
+    this.autosavedSnapshot = null;
+    this.restorePrompt.classList.add('hidden');
+  }
+
+  // Only the latest scrub position matters, so at most one frame request is in flight
+  private requestFrame(generation: number): void {
+    this.awaitingFrame = true;
+    if (this.frameRequestInFlight) {
+      this.queuedFrameGeneration = generation;
+      return;
+    }
+
+    this.frameRequestInFlight = true;
+    this.runner.requestFrame(generation);
+  }
+
+  private handleFrame(
+    frame: HistoryFrame | null,
+    nextGeneration: number | null,
+    range: { first: number; last: number } | null,
+  ): void {
+    this.frameRequestInFlight = false;
+    if (this.queuedFrameGeneration !== null) {
+      const generation = this.queuedFrameGeneration;
+      this.queuedFrameGeneration = null;
+      this.requestFrame(generation);
+      return;
+    }
+
+    // Ignore frames that arrive after returning to live or resetting
+    if (!this.session || !frame || !this.awaitingFrame) return;
+    this.awaitingFrame = false;
+
+    this.viewedFrame = frame;
+    this.nextFrameGeneration = nextGeneration;
+    if (range) {
+      this.timelineSlider.min = range.first.toString();
+    }
+    this.timelineSlider.value = frame.generation.toString();
+    this.populationDirty = true;
+    this.scheduleRender();
+
+    if (this.isReplaying) {
+      if (nextGeneration === null) {
+        this.stopReplay();
+      } else {
+        const speed = parseInt(this.replaySpeedSelect.value) || 5;
+        this.replayTimerId = window.setTimeout(() => {
+          this.replayTimerId = null;
+          this.requestFrame(nextGeneration);
+        }, 1000 / speed);
+      }
+    }
+  }
+
+  private handleReplayToggle(): void {
+    if (this.isReplaying) {
+      this.stopReplay();
+      return;
+    }
+
+    this.isReplaying = true;
+    this.timelineReplayButton.textContent = 'Pause';
+    // Continue from the viewed frame, or start over from the oldest recorded generation
+    const start =
+      this.viewedFrame && this.nextFrameGeneration !== null
+        ? this.nextFrameGeneration
+        : parseInt(this.timelineSlider.min);
+    this.requestFrame(start);
+  }
+
+  private stopReplay(): void {
+    this.isReplaying = false;
+    this.timelineReplayButton.textContent = 'Replay';
+    if (this.replayTimerId !== null) {
+      clearTimeout(this.replayTimerId);
+      this.replayTimerId = null;
+    }
+  }
+
+  private showLive(): void {
+    this.stopReplay();
+    this.queuedFrameGeneration = null;
+    this.awaitingFrame = false;
+    if (!this.viewedFrame) return;
+
+    this.viewedFrame = null;
+    this.nextFrameGeneration = null;
+    this.populationDirty = true;
+    this.scheduleRender();
+  }
+
+  private resetTimeline(): void {
+    this.showLive();
+    this.timelineSlider.min = '0';
+    this.timelineSlider.max = '0';
+    this.timelineSlider.value = '0';
+    this.timeline.classList.toggle('hidden', !this.session?.options.history);
+  }
+
+  private updateTimeline(): void {
+    if (!this.session?.options.history) return;
+
+    const current = this.session.stats.generation;
+    this.timelineSlider.max = current.toString();
+    if (this.viewedFrame) {
+      this.timelineLabel.textContent = `Generation ${this.viewedFrame.generation} of ${current}`;
+    } else {
+      this.timelineSlider.value = current.toString();
+      this.timelineLabel.textContent = `Live · generation ${current}`;
+    }
+  }
+
+  private requestLineage(): void {
+    if (!this.session?.config.trackLineage) return;
+    this.runner.requestLineage(parseInt(this.lineageDepthSelect.value) || 3);
+  }
+
+  private resetLineage(): void {
+    const tracking = this.session?.config.trackLineage ?? false;
+    this.lineageSection.classList.toggle('hidden', !tracking);
+    this.lineageTree.innerHTML =
+      '<p class="empty-message">Step or run the simulation to see where the best string came from</p>';
+    if (tracking) {
+      this.requestLineage();
+    }
+  }
+
+  private renderLineage(tree: LineageNode | null): void {
+    // A late answer can still arrive after a reset
+    if (!this.session?.config.trackLineage) return;
+
+    this.lineageTree.innerHTML = tree
+      ? this.renderLineageNode(tree, 'Best')
+      : '<p class="empty-message">No lineage recorded for this run</p>';
+  }
+
+  private renderLineageNode(node: LineageNode, label: string): string {
+    const mutated = new Set(node.mutatedLoci);
+    const dna = splitCodePoints(node.dna)
+      .map((gene, i) => {
+        const origin = node.origins[i];
+        const classes = [
+          origin === 0 ? 'from-a' : origin === 1 ? 'from-b' : '',
+          mutated.has(i) ? 'mutated' : '',
+        ].join(' ');
+        return `<span class="${classes.trim()}">${this.escapeHtml(gene)}</span>`;
+      })
+      .join('');
+
+    const details = [`#${node.id}`, `born gen ${node.birthGeneration}`];
+    details.push(`score ${this.formatScore(node.fitness)}`);
+    if (node.parentIds.length === 0) {
+      details.push('random');
+    } else if (node.crossoverPoints.length > 0) {
+      details.push(`cut at ${node.crossoverPoints.join(', ')}`);
+    }
+
+    const selfed = node.parentIds.length === 2 && node.parentIds[0] === node.parentIds[1];
+    const parents = node.parents
+      .map((parent) => {
+        const parentLabel = selfed
+          ? 'Both Parents'
+          : node.parentIds.indexOf(parent.id) === 0
+            ? 'Parent A'
+            : 'Parent B';
+        return this.renderLineageNode(parent, parentLabel);
+      })
+      .join('');
+
+    return `
+      <div class="lineage-node">
+        <div class="lineage-card">
+          <div class="lineage-label">${label}</div>
+          <div class="lineage-dna">${dna}</div>
+          <div class="lineage-meta">${details.join(' · ')}</div>
+        </div>
+        ${parents ? `<div class="lineage-parents">${parents}</div>` : ''}
+      </div>
+    `;
+  }
+
+  private resetConvergence(initial: LocusStats | null): void {
+    const tracking = this.session?.options.locusStats ?? false;
+    this.convergencePanel.classList.toggle('hidden', !tracking);
+    this.convergenceHeatmap.clear();
+    this.locusDetails.textContent =
+      'Click a cell to see which characters the population holds there';
+    if (this.session && initial) {
+      this.convergenceHeatmap.setTarget(splitCodePoints(this.getCurrentTarget()));
+      this.convergenceHeatmap.addGenerations([initial]);
+    }
+  }
+
+  // The Pareto view sits beside the progress chart only while the run has a second objective
+  private resetPareto(): void {
+    const objective = this.session?.config.secondObjective ?? 'none';
+    const visible = objective !== 'none';
+    this.paretoPanel.classList.toggle('hidden', !visible);
+    this.chartRow.classList.toggle('with-pareto', visible);
+    // Showing or hiding the panel resizes the progress chart without resizing the window
+    this.chart.resize();
+    this.paretoChart.reset(objective);
+  }
+
+  private updateParetoChart(): void {
+    if (!this.session || (this.session.config.secondObjective ?? 'none') === 'none') return;
+
+    const stats = this.viewedFrame?.stats ?? this.session.stats;
+    const population = this.viewedFrame?.population ?? this.session.population;
+    this.paretoChart.setPopulation(population, stats.maxFitness);
+  }
+
+  // A moving target changes during the run; the configured one is only where it started
+  private getCurrentTarget(): string {
+    return this.session!.stats.environment?.target ?? this.session!.config.target;
+  }
+
+  private renderLocusDetails(stats: LocusStats, position: number): void {
+    if (!this.session) return;
+
+    const target = splitCodePoints(this.getCurrentTarget())[position];
+    const share = (count: number) => `${((count / stats.populationSize) * 100).toFixed(1)}%`;
+    const distribution = stats.distributions[position];
+    const rows = distribution.top.map(
+      ([character, count]) => `
+        <li class="${character === target ? 'correct' : ''}">
+          <span class="locus-character">${this.escapeHtml(character)}</span>
+          <span class="locus-bar-track">
+            <span class="locus-bar" style="width: ${share(count)}"></span>
+          </span>
+          <span class="locus-count">${count} (${share(count)})</span>
+        </li>
+      `,
+    );
+    if (distribution.other > 0) {
+      rows.push(
+        `<li><span class="locus-character">…</span><span class="locus-count">${distribution.other} other (${share(distribution.other)})</span></li>`,
+      );
+    }
+    if (distribution.missing > 0) {
+      rows.push(
+        `<li><span class="locus-character">∅</span><span class="locus-count">${distribution.missing} too short (${share(distribution.missing)})</span></li>`,
+      );
+    }
+
+    this.locusDetails.innerHTML = `
+      <div class="locus-summary">
+        Position ${position} (target '${this.escapeHtml(target)}') at generation ${stats.generation}:
+        ${(stats.correct[position] * 100).toFixed(1)}% correct · entropy ${stats.entropy[position].toFixed(2)} bits
+      </div>
+      <ul class="locus-distribution">${rows.join('')}</ul>
+    `;
+  }
+
+  // Coalesce worker updates into at most one DOM update per animation frame
+  private scheduleRender(): void {
+    if (this.renderFrameId !== null) return;
+
+    this.renderFrameId = requestAnimationFrame(() => {
+      this.renderFrameId = null;
+      if (!this.session) return;
+
+      this.updateDisplay(this.viewedFrame?.stats ?? this.session.stats);
+      this.updateTimeline();
+
+      const now = performance.now();
+      if (
+        this.populationDirty &&
+        (!this.isRunning || now - this.lastPopulationRender >= POPULATION_RENDER_INTERVAL_MS)
+      ) {
+        this.renderPopulation();
+      }
+    });
+  }
+
+  private renderPopulation(): void {
+    this.populationDirty = false;
+    this.lastPopulationRender = performance.now();
+    this.updatePopulationDisplay();
+    this.updateParetoChart();
+  }
+
+  private toChartData(stats: GenerationStats): ChartData {
+    return {
+      generation: stats.generation,
+      bestFitness: stats.bestIndividual.fitness,
+      avgFitness: stats.averageFitness,
+      diversity: stats.diversity,
+      maxFitness: stats.maxFitness,
+      mutationRate: stats.mutationRate,
+      hammingDistance: stats.hammingDistance,
+      locusEntropy: stats.locusEntropy,
+      fitnessStdDev: stats.fitnessDistribution.standardDeviation,
+      minFitness: stats.fitnessDistribution.min,
+      lowerQuartileFitness: stats.fitnessDistribution.lowerQuartile,
+      medianFitness: stats.fitnessDistribution.median,
+      upperQuartileFitness: stats.fitnessDistribution.upperQuartile,
+      isStagnant: stats.isStagnant,
+      isComplete: stats.isComplete,
+      islandBestFitness: stats.islands?.map((island) => island.bestFitness),
+      target: stats.environment?.target,
+      targetChanged: stats.environment?.changed,
+    };
+  }
+
   private updateDisplay(stats: GenerationStats): void {
     this.generationDisplay.textContent = stats.generation.toString();
-    this.bestStringDisplay.textContent = `"${stats.bestIndividual.dna}"`;
-    this.bestScoreDisplay.textContent = `${stats.bestIndividual.fitness} / ${stats.bestIndividual.dna.length}`;
+    this.bestStringDisplay.textContent = this.session?.config.variableLength
+      ? `"${stats.bestIndividual.dna}" (${splitCodePoints(stats.bestIndividual.dna).length} chars)`
+      : `"${stats.bestIndividual.dna}"`;
+    this.bestScoreDisplay.textContent = `${this.formatScore(stats.bestIndividual.fitness)} / ${this.formatScore(stats.maxFitness)}`;
     this.avgScoreDisplay.textContent = stats.averageFitness.toFixed(2);
     this.diversityDisplay.textContent = `${stats.diversity.toFixed(1)}%`;
     this.stagnationDisplay.textContent = stats.generationsSinceImprovement.toString();
-    this.updatePopulationDisplay();
+    this.effectiveMutationDisplay.textContent = `${(stats.mutationRate * 100).toFixed(2)}%`;
+    this.updateEnvironmentDisplay(stats);
+    this.paretoFrontDisplay
+      .closest('.stat-item')
+      ?.classList.toggle('hidden', stats.paretoFrontSize === undefined);
+    this.paretoFrontDisplay.textContent = stats.paretoFrontSize?.toString() ?? '-';
 
     // Update convergence alert
     if (stats.isStagnant && !stats.isComplete) {
@@ -318,16 +1725,22 @@ export class UIController {
     } else {
       this.convergenceAlert.classList.add('hidden');
     }
+  }
 
-    // Update chart
-    const maxFitness = stats.bestIndividual.dna.length;
-    this.chart.addDataPoint(
-      stats.generation,
-      stats.bestIndividual.fitness,
-      stats.averageFitness,
-      stats.diversity,
-      maxFitness,
-    );
+  // Current target and readaptation times, shown only while the target moves
+  private updateEnvironmentDisplay(stats: GenerationStats | null): void {
+    const environment = stats?.environment;
+    this.currentTargetDisplay.closest('.stat-item')?.classList.toggle('hidden', !environment);
+    this.readaptationDisplay.closest('.stat-item')?.classList.toggle('hidden', !environment);
+    if (!environment) return;
+
+    const generations = (value: number | null) =>
+      value === null ? '-' : Number(value.toFixed(1)).toString();
+    this.currentTargetDisplay.textContent = `"${environment.target}"`;
+    this.readaptationDisplay.textContent =
+      `${environment.changes} / ${generations(environment.lastReadaptation)}, ` +
+      `${generations(environment.meanReadaptation)}` +
+      (environment.missedReadaptations > 0 ? ` (${environment.missedReadaptations} missed)` : '');
   }
 
   private clearDisplay(): void {
@@ -337,10 +1750,17 @@ export class UIController {
     this.avgScoreDisplay.textContent = '-';
     this.diversityDisplay.textContent = '-';
     this.stagnationDisplay.textContent = '-';
+    this.effectiveMutationDisplay.textContent = '-';
+    this.seedDisplay.textContent = '-';
+    this.updateEnvironmentDisplay(null);
+    this.paretoFrontDisplay.closest('.stat-item')?.classList.add('hidden');
+    this.resetPareto();
+    this.resetRatings();
     this.populationList.innerHTML =
       '<p class="empty-message">Initialize the simulation to see the population</p>';
     this.convergenceAlert.classList.add('hidden');
     this.chart.clear();
+    this.resetConvergence(null);
   }
 
   private updateStatus(message: string, type: 'success' | 'error' | 'info' | 'running'): void {
@@ -349,22 +1769,84 @@ export class UIController {
   }
 
   private updateButtonStates(): void {
-    const isInitialized = this.ga !== null;
+    const isInitialized = this.session !== null;
 
     this.initButton.disabled = this.isRunning;
     this.stepButton.disabled = !isInitialized || this.isRunning;
-    this.startButton.disabled = !isInitialized || this.isRunning;
+    // Each interactive generation waits for new ratings, so it can only be stepped
+    this.startButton.disabled = !isInitialized || this.isRunning || this.isInteractiveSession();
     this.stopButton.disabled = !this.isRunning;
     this.resetButton.disabled = this.isRunning;
+    this.replayButton.disabled = !isInitialized || this.isRunning;
+    this.exportSnapshotButton.disabled = !isInitialized;
+    this.exportPngButton.disabled = !isInitialized;
+    this.exportSvgButton.disabled = !isInitialized;
+    this.exportCsvButton.disabled = !isInitialized;
+    this.exportJsonButton.disabled = !isInitialized;
+    this.exportPopulationButton.disabled = !isInitialized;
+    this.importSnapshotButton.disabled = this.isRunning;
+    this.restoreButton.disabled = this.isRunning;
 
     // Disable inputs while running
     this.targetInput.disabled = this.isRunning;
     this.populationInput.disabled = this.isRunning;
     this.survivalInput.disabled = this.isRunning;
     this.characterSetSelect.disabled = this.isRunning;
+    this.customCharactersInput.disabled = this.isRunning;
     this.selectionStrategySelect.disabled = this.isRunning;
+    this.fitnessStrategySelect.disabled = this.isRunning;
+    this.tournamentSizeInput.disabled = this.isRunning;
+    this.boltzmannTemperatureInput.disabled = this.isRunning;
+    this.eliteCountInput.disabled = this.isRunning;
+    this.crossoverStrategySelect.disabled = this.isRunning;
+    this.crossoverPointsInput.disabled = this.isRunning;
+    this.uniformSwapRateInput.disabled = this.isRunning;
+    this.crossoverRateSlider.disabled = this.isRunning;
     this.mutationToggle.disabled = this.isRunning;
+    this.variableLengthToggle.disabled = this.isRunning;
+    this.minLengthInput.disabled = this.isRunning;
+    this.maxLengthInput.disabled = this.isRunning;
+    this.insertionRateInput.disabled = this.isRunning;
+    this.deletionRateInput.disabled = this.isRunning;
     this.mutationRateSlider.disabled = this.isRunning;
+    this.mutationDecayToggle.disabled = this.isRunning;
+    this.stagnationThresholdInput.disabled = this.isRunning;
+    this.hypermutationToggle.disabled = this.isRunning;
+    this.hypermutationMultiplierInput.disabled = this.isRunning;
+    this.hypermutationDurationInput.disabled = this.isRunning;
+    this.stagnationResponseSelect.disabled = this.isRunning;
+    this.replacementRateInput.disabled = this.isRunning;
+    this.islandCountInput.disabled = this.isRunning;
+    this.migrationIntervalInput.disabled = this.isRunning;
+    this.migrantCountInput.disabled = this.isRunning;
+    this.migrationTopologySelect.disabled = this.isRunning;
+    this.islandSettingsList
+      .querySelectorAll<HTMLInputElement | HTMLSelectElement>('input, select')
+      .forEach((control) => {
+        control.disabled = this.isRunning;
+      });
+    this.nichingSelect.disabled = this.isRunning;
+    this.sharingRadiusInput.disabled = this.isRunning;
+    this.eliminateDuplicatesToggle.disabled = this.isRunning;
+    this.interactiveToggle.disabled = this.isRunning;
+    this.targetModeSelect.disabled = this.isRunning;
+    this.extraTargetsInput.disabled = this.isRunning;
+    this.targetChangeSelect.disabled = this.isRunning;
+    this.targetChangeIntervalInput.disabled = this.isRunning;
+    this.driftEditsInput.disabled = this.isRunning;
+    this.stringLengthInput.disabled = this.isRunning;
+    this.secondObjectiveSelect.disabled = this.isRunning;
+    this.secondTargetInput.disabled = this.isRunning;
+    this.seedInput.disabled = this.isRunning;
+    this.trackLineageToggle.disabled = this.isRunning;
+    this.lineageRefreshButton.disabled = this.isRunning;
+    this.recordHistoryToggle.disabled = this.isRunning;
+    this.historyDepthInput.disabled = this.isRunning;
+    this.historySampleIntervalInput.disabled = this.isRunning;
+    this.trackLociToggle.disabled = this.isRunning;
+    this.timelineSlider.disabled = this.isRunning;
+    this.timelineReplayButton.disabled = this.isRunning;
+    this.timelineLiveButton.disabled = this.isRunning;
 
     // Disable preset buttons while running
     const presetButtons = document.querySelectorAll('.btn-preset');
@@ -373,36 +1855,162 @@ export class UIController {
     });
   }
 
+  private isInteractiveSession(): boolean {
+    return this.session?.config.interactive ?? false;
+  }
+
+  // Ratings kept from the last step start out as given; the hint shows only in interactive mode
+  private resetRatings(): void {
+    const interactive = this.isInteractiveSession();
+    this.ratingHint.classList.toggle('hidden', !interactive);
+    this.ratings = new Map(
+      interactive
+        ? this.session!.population.filter((individual) => individual.fitness > 0).map(
+            (individual) => [individual.dna, individual.fitness],
+          )
+        : [],
+    );
+  }
+
+  private getRatings(): Rating[] {
+    return [...this.ratings].map(([dna, rating]) => ({ dna, rating }));
+  }
+
+  // Clicking a card picks it with the top rating, or clears the rating it has. A rating button
+  // sets that rating, and clicking the current one again clears it.
+  private handlePopulationClick(event: MouseEvent): void {
+    if (!this.isInteractiveSession() || this.viewedFrame || this.isRunning) return;
+
+    const element = event.target as HTMLElement;
+    const card = element.closest<HTMLElement>('.population-item[data-index]');
+    if (!card) return;
+
+    const { dna } = this.displayedPopulation[Number(card.dataset.index)];
+    const current = this.ratings.get(dna) ?? 0;
+    const button = element.closest<HTMLElement>('[data-rating]');
+    let rating = button ? Number(button.dataset.rating) : MAX_RATING;
+    if (button ? rating === current : current > 0) {
+      rating = 0;
+    }
+
+    if (rating > 0) {
+      this.ratings.set(dna, rating);
+    } else {
+      this.ratings.delete(dna);
+    }
+    this.updatePopulationDisplay();
+  }
+
+  // Interactive mode: every card can be picked or rated, and shows the rating given so far
+  private renderRateablePopulation(population: Individual[]): void {
+    this.displayedPopulation = population;
+    const showLength = this.session!.config.variableLength;
+    this.populationList.innerHTML = population
+      .map((individual, index) => {
+        const rating = this.ratings.get(individual.dna) ?? 0;
+        const buttons = Array.from({ length: MAX_RATING }, (_, i) => i + 1)
+          .map(
+            (value) =>
+              `<button type="button" class="rating-button ${value <= rating ? 'active' : ''}" data-rating="${value}" aria-label="Rate ${value} of ${MAX_RATING}">${value}</button>`,
+          )
+          .join('');
+        const length = showLength
+          ? `<div class="population-length">Length: ${splitCodePoints(individual.dna).length}</div>`
+          : '';
+        return `
+          <div class="population-item rateable ${rating > 0 ? 'rated' : ''}" data-index="${index}">
+            <div class="population-dna">${this.escapeHtml(individual.dna)}</div>
+            <div class="population-fitness">
+              ${rating > 0 ? `Rating: <span class="fitness-value">${rating}/${MAX_RATING}</span>` : 'Not rated'}
+            </div>
+            ${length}
+            <div class="rating-buttons">${buttons}</div>
+          </div>
+        `;
+      })
+      .join('');
+  }
+
   private updatePopulationDisplay(): void {
-    if (!this.ga) {
+    if (!this.session) {
       this.populationList.innerHTML =
         '<p class="empty-message">Initialize the simulation to see the population</p>';
       return;
     }
 
-    const population = (this.ga as any).population as Array<{ dna: string; fitness: number }>;
+    // A frame from the timeline replaces the live population while it is being viewed
+    const population = this.viewedFrame?.population ?? this.session.population;
 
     // Sort population by fitness (descending) for display
     const sortedPopulation = [...population].sort((a, b) => b.fitness - a.fitness);
+    if (this.isInteractiveSession() && !this.viewedFrame) {
+      this.renderRateablePopulation(sortedPopulation);
+      return;
+    }
 
-    this.populationList.innerHTML = sortedPopulation
-      .map((individual, index) => {
-        const isBest = index === 0;
-        const percentage = ((individual.fitness / individual.dna.length) * 100).toFixed(1);
-        return `
+    const stats = this.viewedFrame?.stats ?? this.session.stats;
+    const maxFitness = stats.maxFitness;
+    const showLength = this.session.config.variableLength;
+    const secondObjective = this.session.config.secondObjective ?? 'none';
+    const secondLabel = describeSecondObjective(secondObjective).label;
+
+    const renderItem = (individual: Individual, isBest: boolean) => {
+      const percentage = ((individual.fitness / maxFitness) * 100).toFixed(1);
+      const length = showLength
+        ? `<div class="population-length">Length: ${splitCodePoints(individual.dna).length}</div>`
+        : '';
+      const second =
+        secondObjective !== 'none' && individual.objectives
+          ? `<div class="population-length">${secondLabel}: ${this.formatScore(individual.objectives[1])}</div>`
+          : '';
+      return `
           <div class="population-item ${isBest ? 'best' : ''}">
             <div class="population-dna">${this.escapeHtml(individual.dna)}</div>
             <div class="population-fitness">
-              Score: <span class="fitness-value">${individual.fitness}/${
-          individual.dna.length
-        }</span> (${percentage}%)
+              Score: <span class="fitness-value">${this.formatScore(
+                individual.fitness,
+              )}/${this.formatScore(maxFitness)}</span> (${percentage}%)
             </div>
+            ${length}
+            ${second}
+          </div>
+        `;
+    };
+
+    if (!stats.islands) {
+      this.populationList.innerHTML = sortedPopulation
+        .map((individual, index) => renderItem(individual, index === 0))
+        .join('');
+      return;
+    }
+
+    // Island model: one group per island, each headed by its settings and scores
+    const config = this.session.config;
+    this.populationList.innerHTML = stats.islands
+      .map((island, index) => {
+        const settings = config.islandSettings?.[index];
+        const strategy = settings?.selectionStrategy ?? config.selectionStrategy;
+        const mutationRate = settings?.mutationRate ?? config.mutationRate!;
+        const members = sortedPopulation.filter((individual) => individual.island === index);
+        return `
+          <div class="island-heading">
+            <strong>Island ${index + 1}</strong>
+            <span>${strategy}, ${Number((mutationRate * 100).toFixed(2))}% mutation</span>
+            <span>${island.size} individuals · best ${this.formatScore(
+              island.bestFitness,
+            )} · avg ${island.averageFitness.toFixed(2)}</span>
           </div>
+          ${members.map((individual, position) => renderItem(individual, position === 0)).join('')}
         `;
       })
       .join('');
   }
 
+  // Positional scores are whole numbers; other fitness strategies award partial credit
+  private formatScore(score: number): string {
+    return Number.isInteger(score) ? score.toString() : score.toFixed(2);
+  }
+
   private escapeHtml(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
@@ -490,7 +2098,9 @@ export class UIController {
       this.populationInput.value = config.population.toString();
       this.survivalInput.value = config.survival.toString();
       this.characterSetSelect.value = config.characterSet;
+      this.updateCharacterSetVisibility();
       this.selectionStrategySelect.value = config.selectionStrategy;
+      this.updateSelectionParameterVisibility();
       this.mutationToggle.checked = config.mutation;
       this.mutationRateSlider.value = config.mutationRate.toString();
       this.mutationRateValue.textContent = config.mutationRate.toString();
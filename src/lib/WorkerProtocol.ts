@@ -0,0 +1,108 @@
+import type {
+  GeneticAlgorithmConfig,
+  GeneticAlgorithmState,
+  GenerationStats,
+  Individual,
+  Rating,
+} from './GeneticAlgorithm';
+import type { SweepOptions, SweepResult } from './ParameterSweep';
+import type { ComparisonPoint, ComparisonRunStatus } from './Comparison';
+import type { HistoryFrame, HistoryOptions } from './HistoryRecorder';
+import type { LineageNode } from './LineageTracker';
+import type { LocusStats } from './LocusStatistics';
+
+// The tsconfig only ships the DOM lib, so describe just the worker scope members the workers use
+export interface WorkerScope<Request, Response> {
+  postMessage(message: Response): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<Request>) => void): void;
+}
+
+// The global scope of a worker exchanging these requests and responses
+export function workerScope<Request, Response>(): WorkerScope<Request, Response> {
+  return self as unknown as WorkerScope<Request, Response>;
+}
+
+// Functions cannot cross the worker boundary, so custom fitness callbacks stay main-thread only
+export type WorkerConfig = Omit<GeneticAlgorithmConfig, 'customFitness'>;
+
+// Extra data the worker records alongside the algorithm, each at some cost per generation
+export interface SessionOptions {
+  history: HistoryOptions | null;
+  locusStats: boolean; // per-position convergence for the heatmap
+}
+
+// Messages sent from the UI to the worker
+export type WorkerRequest =
+  | { type: 'init'; config: WorkerConfig; options: SessionOptions }
+  | { type: 'step' }
+  | { type: 'rate'; ratings: Rating[] } // interactive mode; applies to the next step, no answer
+  | { type: 'run'; generations: number; delay: number } // generations <= 0 runs until complete
+  | { type: 'stop' }
+  | { type: 'snapshot' }
+  | { type: 'restore'; state: GeneticAlgorithmState; options: SessionOptions }
+  | { type: 'frame'; generation: number }
+  | { type: 'lineage'; depth: number }; // ancestry of the current best individual
+
+export type RunEndReason = 'complete' | 'limit' | 'stopped';
+
+// Messages sent from the worker back to the UI
+export type WorkerResponse =
+  | {
+      type: 'initialized';
+      config: WorkerConfig;
+      stats: GenerationStats;
+      population: Individual[];
+      loci: LocusStats | null; // null unless locus stats were requested
+    }
+  | {
+      // Same shape as 'initialized', but the run continues from a saved state
+      type: 'restored';
+      config: WorkerConfig;
+      stats: GenerationStats;
+      population: Individual[];
+      loci: LocusStats | null; // null unless locus stats were requested
+    }
+  | {
+      // One or more generations; population is only attached when it is due for a redraw
+      type: 'generations';
+      stats: GenerationStats[];
+      population: Individual[] | null;
+      loci: LocusStats[] | null; // one entry per stats entry when locus stats were requested
+    }
+  | { type: 'stopped'; reason: RunEndReason }
+  | { type: 'snapshot'; state: GeneticAlgorithmState }
+  | {
+      // Recorded generation nearest to the one requested; frame is null when history is off
+      type: 'frame';
+      frame: HistoryFrame | null;
+      nextGeneration: number | null;
+      range: { first: number; last: number } | null;
+    }
+  | { type: 'lineage'; tree: LineageNode | null }
+  | { type: 'error'; message: string };
+
+// Messages sent from the UI to the parameter sweep worker
+export type SweepWorkerRequest =
+  | { type: 'start'; options: Omit<SweepOptions, 'baseConfig'> & { baseConfig: WorkerConfig } }
+  | { type: 'cancel' };
+
+// Messages sent from the parameter sweep worker back to the UI
+export type SweepWorkerResponse =
+  | { type: 'progress'; completedRuns: number; totalRuns: number; result: SweepResult | null }
+  | { type: 'done'; cancelled: boolean }
+  | { type: 'error'; message: string };
+
+// Messages sent from the UI to the comparison worker
+export type ComparisonWorkerRequest =
+  { type: 'start'; configs: WorkerConfig[]; maxGenerations: number } | { type: 'stop' };
+
+// Messages sent from the comparison worker back to the UI
+export type ComparisonWorkerResponse =
+  | {
+      // Points recorded since the last message, one list per run in the order they were started
+      type: 'progress';
+      points: ComparisonPoint[][];
+      runs: ComparisonRunStatus[];
+    }
+  | { type: 'done'; stopped: boolean }
+  | { type: 'error'; message: string };